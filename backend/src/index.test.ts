@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import app from './index';
+import type { ENV } from './types';
+
+const createEnv = (whitelist: unknown[]) =>
+  ({
+    API_KEY: 'test-key',
+    WHITELIST_STORE: {
+      get: async () => JSON.stringify(whitelist),
+    },
+  }) as unknown as ENV;
+
+const check = async (env: ENV, domain: string) => {
+  const response = await app.request(
+    '/v1/whitelist/check',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test-key' },
+      body: JSON.stringify({ domain }),
+    },
+    env
+  );
+  return (await response.json()) as { whitelisted: boolean };
+};
+
+describe('Whitelist check', () => {
+  it('should match path entries case-sensitively, like the extension', async () => {
+    const env = createEnv([
+      { id: '1', domain: 'github.com/Our-Org/*', scope: 'all' },
+    ]);
+
+    expect(await check(env, 'https://GitHub.com/Our-Org/repo')).toEqual({
+      whitelisted: true,
+    });
+    expect(await check(env, 'github.com/our-org/repo')).toEqual({
+      whitelisted: false,
+    });
+  });
+});
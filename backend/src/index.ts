@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { etag } from 'hono/etag';
 import { ENV } from './types';
 import { authMiddleware } from './middleware/auth';
 import {
@@ -7,6 +8,11 @@ import {
   redactPII,
   redactSensitiveData,
 } from './utils/pii-detection';
+import {
+  normalizeWhitelistPattern,
+  WHITELIST_SCOPES,
+  type WhitelistScope,
+} from '../../src/shared/whitelist';
 import {
   getWhitelist,
   addToWhitelist,
@@ -28,7 +34,7 @@ const app = new Hono<{
 }>();
 
 // CORS middleware
-app.use('/*', cors());
+app.use('/*', cors({ origin: '*', exposeHeaders: ['ETag'] }));
 
 // Health check (no auth required)
 app.get('/v1/health', c => {
@@ -43,7 +49,8 @@ app.get('/v1/health', c => {
 app.use('/*', authMiddleware);
 
 // Whitelist endpoints
-app.get('/v1/whitelist', async c => {
+// The extension caches the list and revalidates it with If-None-Match
+app.get('/v1/whitelist', etag(), async c => {
   try {
     const whitelist = await getWhitelist(c.env);
     return c.json({ whitelist });
@@ -56,39 +63,65 @@ app.get('/v1/whitelist', async c => {
 app.post('/v1/whitelist', async c => {
   try {
     const body = await c.req.json();
-    const { domain } = body;
+    const { domain, scope = 'all', pii_types } = body;
 
     if (!domain || typeof domain !== 'string') {
       return c.json({ error: 'Domain is required' }, 400);
     }
 
-    if (domain.length > 253) {
-      return c.json({ error: 'Domain is too long (max 253 characters)' }, 400);
+    if (domain.length > 2048) {
+      return c.json({ error: 'Domain is too long (max 2048 characters)' }, 400);
     }
 
-    const normalizedDomain = domain
-      .replace(/^https?:\/\//, '')
-      .replace(/^www\./, '')
-      .replace(/\/$/, '')
-      .toLowerCase();
-
-    if (normalizedDomain.length === 0) {
+    // example.com, *.example.com or a path prefix like github.com/our-org/*
+    const pattern = normalizeWhitelistPattern(domain);
+    if (!pattern) {
       return c.json({ error: 'Invalid domain format' }, 400);
     }
 
-    const domainRegex =
-      /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
-    if (!domainRegex.test(normalizedDomain)) {
-      return c.json({ error: 'Invalid domain format' }, 400);
+    if (!WHITELIST_SCOPES.includes(scope)) {
+      return c.json(
+        {
+          error: `Invalid scope: must be one of ${WHITELIST_SCOPES.join(', ')}`,
+        },
+        400
+      );
+    }
+
+    const piiTypes: string[] = [];
+    if (scope === 'pii_types') {
+      if (
+        !Array.isArray(pii_types) ||
+        pii_types.length === 0 ||
+        pii_types.length > 50 ||
+        !pii_types.every(
+          (type: unknown) =>
+            typeof type === 'string' && /^[A-Za-z0-9_]{1,50}$/.test(type)
+        )
+      ) {
+        return c.json(
+          { error: 'pii_types must be a non-empty list of PII types' },
+          400
+        );
+      }
+      piiTypes.push(...new Set<string>(pii_types));
     }
 
     // Check if already exists
-    const existing = await isWhitelisted(c.env, normalizedDomain);
+    const whitelist = await getWhitelist(c.env);
+    const existing = whitelist.some(
+      entry => entry.domain === pattern && (entry.scope ?? 'all') === scope
+    );
     if (existing) {
       return c.json({ error: 'Domain already exists in whitelist' }, 409);
     }
 
-    const entry = await addToWhitelist(c.env, normalizedDomain);
+    const entry = await addToWhitelist(
+      c.env,
+      pattern,
+      scope as WhitelistScope,
+      piiTypes
+    );
     return c.json({ success: true, whitelist: entry }, 201);
   } catch (error) {
     console.error('Error adding to whitelist:', error);
@@ -126,15 +159,20 @@ app.post('/v1/whitelist/check', async c => {
       return c.json({ error: 'Domain is required' }, 400);
     }
 
-    if (domain.length > 253) {
-      return c.json({ error: 'Domain is too long (max 253 characters)' }, 400);
+    if (domain.length > 2048) {
+      return c.json({ error: 'Domain is too long (max 2048 characters)' }, 400);
     }
 
-    const normalizedDomain = domain
-      .replace(/^https?:\/\//, '')
-      .replace(/^www\./, '')
-      .replace(/\/$/, '')
-      .toLowerCase();
+    // Hosts are case-insensitive but paths aren't, as in the extension
+    const target = domain
+      .replace(/^https?:\/\//i, '')
+      .replace(/^www\./i, '')
+      .replace(/\/$/, '');
+    const slash = target.indexOf('/');
+    const normalizedDomain =
+      slash === -1
+        ? target.toLowerCase()
+        : target.slice(0, slash).toLowerCase() + target.slice(slash);
 
     if (normalizedDomain.length === 0) {
       return c.json({ error: 'Invalid domain format' }, 400);
@@ -149,7 +187,7 @@ app.post('/v1/whitelist/check', async c => {
 });
 
 // Custom patterns endpoints
-app.get('/v1/patterns', async c => {
+app.get('/v1/patterns', etag(), async c => {
   try {
     const patterns = await getPatterns(c.env);
     return c.json({ patterns });
@@ -236,15 +274,31 @@ app.post('/v1/detections/batch', async c => {
       return c.json({ error: 'Invalid detections array' }, 400);
     }
 
-    const detectionsToInsert = detections.map(d => ({
-      type: d.type,
-      domain: d.domain,
-      action: d.action || 'detected',
-      metadata: d.metadata || {},
-    }));
+    // Clients retry failed batches, so entries carry an idempotency key and
+    // the time they happened rather than the time they arrived
+    const now = Date.now();
+    const detectionsToInsert = detections.map(d => {
+      const occurredAt =
+        typeof d.timestamp === 'string' ? Date.parse(d.timestamp) : NaN;
+      return {
+        type: d.type,
+        domain: d.domain,
+        action: d.action || 'detected',
+        metadata: d.metadata || {},
+        idempotency_key:
+          typeof d.idempotency_key === 'string' &&
+          d.idempotency_key.length <= 100
+            ? d.idempotency_key
+            : undefined,
+        timestamp:
+          Number.isNaN(occurredAt) || occurredAt > now
+            ? undefined
+            : new Date(occurredAt).toISOString(),
+      };
+    });
 
-    await addDetectionsBatch(c.env, detectionsToInsert);
-    return c.json({ success: true, count: detectionsToInsert.length });
+    const count = await addDetectionsBatch(c.env, detectionsToInsert);
+    return c.json({ success: true, count });
   } catch (error) {
     console.error('Error batch logging detections:', error);
     return c.json({ error: 'Failed to log detections' }, 500);
@@ -633,6 +687,8 @@ Text to analyze:
         analysis.detections.push({
           type: patternDet.type,
           value: patternDet.value,
+          start: patternDet.start,
+          end: patternDet.end,
           confidence: patternDet.confidence,
           reason: patternDet.reason || 'Pattern match',
         });
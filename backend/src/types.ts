@@ -1,3 +1,5 @@
+import type { WhitelistScope } from '../../src/shared/whitelist';
+
 export interface ENV {
   API_KEY: string;
   AI: any; // Cloudflare AI binding
@@ -9,7 +11,11 @@ export interface ENV {
 
 export interface WhitelistEntry {
   id: string;
+  // Site pattern: example.com, *.example.com or github.com/our-org/*
   domain: string;
+  // Missing on entries saved before scopes existed, which means 'all'
+  scope?: WhitelistScope;
+  pii_types?: string[];
   created_at: string;
 }
 
@@ -41,10 +47,16 @@ export interface AuditLog {
   created_at: string;
 }
 
+// Mirrors DetectionResult from src/shared/pii-detector.ts, with confidence
+// on the 0-100 scale used by API responses
 export interface PIIDetection {
   type: string;
   value: string;
+  start?: number;
+  end?: number;
   confidence: number;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  patternName?: string;
   reason?: string;
 }
 
@@ -1,3 +1,4 @@
+import { detectPii } from '../../../src/shared/pii-detector';
 import { ENV, PIIDetection } from '../types';
 
 /**
@@ -23,55 +24,27 @@ export async function detectPII(
 		useAI?: boolean;
 	},
 ): Promise<PIIDetection[]> {
-	const detections: PIIDetection[] = [];
-
-	// Pattern-based detection (fast, runs first)
-	const patterns = {
-		EMAIL: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-		PHONE_NUMBER: /\b(?:\+?1[-.]?)?\(?([0-9]{3})\)?[-.]?([0-9]{3})[-.]?([0-9]{4})\b/g,
-		SSN: /\b\d{3}-\d{2}-\d{4}\b/g,
-		CREDIT_CARD: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
-		IP_ADDRESS: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
-		API_KEY: /\b(?:api[_-]?key|apikey|token)[:\s=]+['\"]?([a-zA-Z0-9_\-]{20,})['\"]?/gi,
-		PASSWORD: /\b(?:password|passwd|pwd)[:\s=]+['\"]?([^\s'"]{6,})['\"]?/gi,
-		AWS_KEY: /\b(AKIA[0-9A-Z]{16})\b/g,
-		SLACK_TOKEN: /\b(xox[pborsa]-[0-9]{10,13}-[0-9]{10,13}-[0-9a-zA-Z]{24,32})\b/g,
-		JWT: /\beyJ[A-Za-z0-9_-]*\.eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*\b/g,
-	};
-
-	// Add built-in patterns
-	for (const [type, pattern] of Object.entries(patterns)) {
-		const matches = text.matchAll(pattern);
-		for (const match of matches) {
-			detections.push({
-				type,
-				value: match[0],
-				confidence: 95,
-				reason: "Pattern match",
-			});
-		}
-	}
-
-	// Add custom patterns from user
-	if (options?.customPatterns && options.customPatterns.length > 0) {
-		for (const customPattern of options.customPatterns) {
-			try {
-				const regex = new RegExp(customPattern.pattern, "gi");
-				const matches = text.matchAll(regex);
-				for (const match of matches) {
-					detections.push({
-						type: customPattern.pattern_type || customPattern.name,
-						value: match[0],
-						confidence: 90,
-						reason: "Custom pattern",
-					});
-				}
-			} catch (error) {
-				console.error(`Invalid custom pattern ${customPattern.name}:`, error);
-				// Continue with other patterns
-			}
-		}
-	}
+	// Pattern-based detection (fast, runs first). This is the same detector the
+	// extension runs, so a paste flagged in the browser is flagged here too.
+	const detections: PIIDetection[] = detectPii(text, {
+		customPatterns: (options?.customPatterns || []).map((p) => ({
+			id: p.name,
+			name: p.name,
+			pattern: p.pattern,
+			pattern_type: p.pattern_type,
+			is_active: true,
+		})),
+	}).map((d) => ({
+		type: d.type,
+		value: d.value,
+		start: d.start,
+		end: d.end,
+		patternName: d.patternName,
+		// Shared detector reports 0-1, API responses use 0-100
+		confidence: d.confidence !== undefined ? Math.round(d.confidence * 100) : 95,
+		severity: d.severity,
+		reason: d.patternName ? "Custom pattern" : "Pattern match",
+	}));
 
 	// If text is short enough and we have AI available, use AI for contextual detection
 	const useAI = options?.useAI !== undefined ? options.useAI : true;
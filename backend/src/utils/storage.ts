@@ -1,4 +1,5 @@
 import { ENV, WhitelistEntry, CustomPattern, Detection, AuditLog } from '../types';
+import { getWhitelistExemption, type WhitelistScope } from '../../../src/shared/whitelist';
 
 const USER_ID = 'single-user'; // Single user ID for self-hosted instance
 
@@ -9,11 +10,18 @@ export async function getWhitelist(env: ENV): Promise<WhitelistEntry[]> {
 	return JSON.parse(data);
 }
 
-export async function addToWhitelist(env: ENV, domain: string): Promise<WhitelistEntry> {
+export async function addToWhitelist(
+	env: ENV,
+	domain: string,
+	scope: WhitelistScope = 'all',
+	piiTypes: string[] = [],
+): Promise<WhitelistEntry> {
 	const whitelist = await getWhitelist(env);
 	const entry: WhitelistEntry = {
 		id: crypto.randomUUID(),
 		domain,
+		scope,
+		...(scope === 'pii_types' ? { pii_types: piiTypes } : {}),
 		created_at: new Date().toISOString(),
 	};
 	whitelist.push(entry);
@@ -29,9 +37,14 @@ export async function removeFromWhitelist(env: ENV, whitelistId: string): Promis
 	return true;
 }
 
-export async function isWhitelisted(env: ENV, domain: string): Promise<boolean> {
+// `target` is a hostname, optionally followed by a path ("github.com/our-org/repo").
+// Matched like the extension does; only entries that turn everything off count.
+export async function isWhitelisted(env: ENV, target: string): Promise<boolean> {
 	const whitelist = await getWhitelist(env);
-	return whitelist.some((entry) => entry.domain === domain);
+	const slash = target.indexOf('/');
+	const hostname = slash === -1 ? target : target.slice(0, slash);
+	const pathname = slash === -1 ? '/' : target.slice(slash);
+	return getWhitelistExemption(whitelist, hostname, pathname).all;
 }
 
 // Patterns operations
@@ -78,19 +91,32 @@ export async function addDetection(env: ENV, detection: Omit<Detection, 'id' | '
 	return newDetection;
 }
 
-export async function addDetectionsBatch(env: ENV, detections: Omit<Detection, 'id' | 'timestamp'>[]): Promise<void> {
+// Entries whose idempotency key is already stored are skipped; the key
+// becomes the detection's id. Returns the number of detections added.
+export async function addDetectionsBatch(
+	env: ENV,
+	detections: Array<Omit<Detection, 'id' | 'timestamp'> & { idempotency_key?: string; timestamp?: string }>,
+): Promise<number> {
 	const existing = await getDetections(env);
-	const newDetections: Detection[] = detections.map((d) => ({
-		...d,
-		id: crypto.randomUUID(),
-		timestamp: new Date().toISOString(),
-	}));
+	const seen = new Set(existing.map((d) => d.id));
+	const newDetections: Detection[] = [];
+	for (const { idempotency_key, timestamp, ...d } of detections) {
+		const id = idempotency_key ?? crypto.randomUUID();
+		if (seen.has(id)) continue;
+		seen.add(id);
+		newDetections.push({
+			...d,
+			id,
+			timestamp: timestamp ?? new Date().toISOString(),
+		});
+	}
 	existing.push(...newDetections);
 	// Keep only last 10000 detections
 	if (existing.length > 10000) {
 		existing.splice(0, existing.length - 10000);
 	}
 	await env.DETECTIONS_STORE.put(USER_ID, JSON.stringify(existing));
+	return newDetections.length;
 }
 
 export async function getDetections(env: ENV): Promise<Detection[]> {
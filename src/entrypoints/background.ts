@@ -1,94 +1,309 @@
-import { getApiClient } from '@/shared/api-client';
+import {
+  getApiClient,
+  initializeApiClient,
+  type PasteProofApiClient,
+} from '@/shared/api-client';
+import { API_RPC_ACTION, handleApiRequest } from '@/shared/api-rpc';
+import {
+  createEmptyConfig,
+  SYNC_INTERVAL_MINUTES,
+  SYNCED_CONFIG_KEY,
+  syncConfig,
+  type SyncedConfig,
+} from '@/shared/config-sync';
+import {
+  LOCAL_PATTERNS_KEY,
+  LOCAL_WHITELIST_KEY,
+  mergeLocalConfig,
+  removeLocalItems,
+  replaceServerCopy,
+  type LocalConfig,
+  type LocalConflict,
+  type LocalPattern,
+  type LocalWhitelistEntry,
+} from '@/shared/local-config';
+import {
+  createIndexedDbStore,
+  createQueuedDetection,
+  PersistentDetectionQueue,
+  type DetectionEvent,
+} from '@/shared/detection-queue';
+import {
+  createTokenVault,
+  decryptTokenVault,
+  encryptTokenVault,
+  generateVaultKey,
+  restoreTokens,
+  tokenize,
+  type TokenVault,
+} from '@/shared/token-vault';
+import { createHashKey, hashValues } from '@/shared/anonymization';
 
 // entrypoints/background.ts
-interface QueuedDetection {
-  type: string;
-  domain: string;
-  action: 'detected' | 'blocked' | 'anonymized';
-  metadata?: Record<string, any>;
-  timestamp: number;
-}
+const FLUSH_ALARM = 'pasteproof-flush-detections';
+// New events wait this long so they go out together
+const FLUSH_DELAY_MS = 5000;
 
-class DetectionQueue {
-  private queue: QueuedDetection[] = [];
-  private processing = false;
-  private readonly MAX_QUEUE_SIZE = 100;
-  private readonly BATCH_SIZE = 10;
+// The content script stores the user's token when they sign in; the
+// client is rebuilt whenever it changes
+let apiClientToken: string | null = null;
 
-  async add(detection: Omit<QueuedDetection, 'timestamp'>) {
-    this.queue.push({
-      ...detection,
-      timestamp: Date.now(),
-    });
+async function getAuthorizedApiClient() {
+  const token = await storage.getItem<string>('local:authToken');
+  if (!token) return null;
+  if (token !== apiClientToken || !getApiClient()) {
+    initializeApiClient(token);
+    apiClientToken = token;
+  }
+  return getApiClient();
+}
 
-    // Keep queue size manageable
-    if (this.queue.length > this.MAX_QUEUE_SIZE) {
-      this.queue = this.queue.slice(-this.MAX_QUEUE_SIZE);
-    }
+const detectionQueue = new PersistentDetectionQueue(
+  createIndexedDbStore(),
+  async batch => {
+    const apiClient = await getAuthorizedApiClient();
+    // Signed out: keep the events until there is someone to log them for
+    if (!apiClient) throw new Error('Not signed in');
 
-    // Process queue
-    this.processQueue();
+    await apiClient.logDetectionsBatch(
+      batch.map(
+        ({ id, createdAt, type, domain, action, metadata, team_id }) => ({
+          idempotency_key: id,
+          timestamp: new Date(createdAt).toISOString(),
+          type,
+          domain,
+          action,
+          metadata,
+          team_id,
+        })
+      )
+    );
   }
+);
+
+function flushDetections() {
+  detectionQueue.flush().catch(error => {
+    console.error('[Paste Proof] Failed to flush detections:', error);
+  });
+}
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleFlush() {
+  flushTimer ??= setTimeout(() => {
+    flushTimer = null;
+    flushDetections();
+  }, FLUSH_DELAY_MS);
+}
 
-  private async processQueue() {
-    if (this.processing || this.queue.length === 0) return;
+// Patterns, team policies and whitelist, cached for the content scripts
+const SYNC_ALARM = 'pasteproof-sync-config';
 
-    this.processing = true;
+let syncing: Promise<void> | null = null;
+
+async function getLocalConfig(): Promise<LocalConfig> {
+  return {
+    whitelist:
+      (await storage.getItem<LocalWhitelistEntry[]>(LOCAL_WHITELIST_KEY)) ?? [],
+    patterns: (await storage.getItem<LocalPattern[]>(LOCAL_PATTERNS_KEY)) ?? [],
+  };
+}
+
+// Whitelist entries and patterns saved while signed out go to the account.
+// What clashes with the account stays local for the popup to settle.
+async function uploadLocalConfig(apiClient: PasteProofApiClient) {
+  const local = await getLocalConfig();
+  if (local.whitelist.length === 0 && local.patterns.length === 0) return;
+
+  const resolved = await mergeLocalConfig(apiClient, local);
+  if (resolved.length === 0) return;
+
+  // Read again: the popup may have changed the lists in the meantime
+  const current = removeLocalItems(await getLocalConfig(), resolved);
+  await storage.setItem(LOCAL_WHITELIST_KEY, current.whitelist);
+  await storage.setItem(LOCAL_PATTERNS_KEY, current.patterns);
+}
+
+// "Keep mine" in the popup: the account's version is replaced with this
+// device's, which then no longer needs keeping here
+async function resolveLocalConflict(item: LocalConflict) {
+  const apiClient = await getAuthorizedApiClient();
+  if (!apiClient) throw new Error('Please sign in first');
+
+  await replaceServerCopy(apiClient, item);
+  const id = item.kind === 'whitelist' ? item.entry.id : item.pattern.id;
+  const current = removeLocalItems(await getLocalConfig(), [id]);
+  await storage.setItem(LOCAL_WHITELIST_KEY, current.whitelist);
+  await storage.setItem(LOCAL_PATTERNS_KEY, current.patterns);
+  await syncConfigNow();
+}
+
+// Refreshes the cached config and sends it to every open tab if anything
+// changed. Concurrent calls share a run.
+function syncConfigNow(): Promise<void> {
+  const run = async () => {
+    const apiClient = await getAuthorizedApiClient();
+    if (!apiClient) return;
 
     try {
-      const apiClient = getApiClient();
-      if (!apiClient) {
-        this.processing = false;
-        return;
-      }
+      await uploadLocalConfig(apiClient);
+    } catch (error) {
+      console.error('[Paste Proof] Failed to upload local config:', error);
+    }
 
-      // Process in batches
-      while (this.queue.length > 0) {
-        const batch = this.queue.splice(0, this.BATCH_SIZE);
-
-        try {
-          await apiClient.logDetectionsBatch(batch);
-        } catch (error) {
-          console.error('Failed to log batch, re-queueing:', error);
-          // Put failed batch back at the front
-          this.queue.unshift(...batch);
-          break;
-        }
-      }
-    } finally {
-      this.processing = false;
+    const cached =
+      (await storage.getItem<SyncedConfig>(SYNCED_CONFIG_KEY)) ??
+      createEmptyConfig();
+    const { config, changed } = await syncConfig(apiClient, cached);
+    await storage.setItem(SYNCED_CONFIG_KEY, config);
+    if (!changed) return;
+
+    const tabs = await browser.tabs.query({});
+    for (const tab of tabs) {
+      if (tab.id === undefined) continue;
+      browser.tabs
+        .sendMessage(tab.id, { action: 'configUpdated', config })
+        .catch(() => {
+          // No content script in this tab
+        });
     }
+  };
+
+  syncing ??= run()
+    .catch(error => {
+      console.error('[Paste Proof] Failed to sync config:', error);
+    })
+    .finally(() => {
+      syncing = null;
+    });
+  return syncing;
+}
+
+// Pseudonymization vaults, one per tab. The encrypted mapping lives in
+// local storage; its key only in session storage, so nothing readable is
+// left on disk once the browser closes.
+const VAULT_KEYS = 'session:tokenVaultKeys';
+const VAULT_PREFIX = 'tokenVault:';
+
+let vaultLock: Promise<unknown> = Promise.resolve();
+
+async function getVaultKey(tabId: number): Promise<string> {
+  const keys =
+    (await storage.getItem<Record<string, string>>(VAULT_KEYS)) ?? {};
+  if (!keys[tabId]) {
+    keys[tabId] = await generateVaultKey();
+    await storage.setItem(VAULT_KEYS, keys);
   }
+  return keys[tabId];
+}
 
-  // Call this periodically or on browser events
-  flush() {
-    this.processQueue();
+// Runs `fn` against the tab's vault and saves any changes. Calls are
+// serialised so concurrent requests can't hand out the same token.
+function withTokenVault<T>(
+  tabId: number,
+  fn: (vault: TokenVault) => T
+): Promise<T> {
+  const run = async () => {
+    const key = await getVaultKey(tabId);
+    const storageKey = `local:${VAULT_PREFIX}${tabId}` as const;
+    const payload = await storage.getItem<string>(storageKey);
+
+    let vault = createTokenVault();
+    if (payload) {
+      try {
+        vault = await decryptTokenVault(payload, key);
+      } catch {
+        // Left over from a previous session whose key is gone
+      }
+    }
+
+    const result = fn(vault);
+    await storage.setItem(storageKey, await encryptTokenVault(vault, key));
+    return result;
+  };
+
+  const next = vaultLock.then(run, run);
+  vaultLock = next.catch(() => {});
+  return next;
+}
+
+async function clearTokenVault(tabId: number) {
+  const keys = await storage.getItem<Record<string, string>>(VAULT_KEYS);
+  if (keys?.[tabId]) {
+    delete keys[tabId];
+    await storage.setItem(VAULT_KEYS, keys);
   }
+  await storage.removeItem(`local:${VAULT_PREFIX}${tabId}`);
 }
 
-const detectionQueue = new DetectionQueue();
+// Vaults from the last session can't be decrypted any more
+async function removeStaleTokenVaults() {
+  const items = await browser.storage.local.get(null);
+  const stale = Object.keys(items).filter(key => key.startsWith(VAULT_PREFIX));
+  if (stale.length > 0) {
+    await browser.storage.local.remove(stale);
+  }
+}
 
-// Export for use in content scripts
-export function queueDetection(detection: Omit<QueuedDetection, 'timestamp'>) {
-  detectionQueue.add(detection);
+// Seed for realistic fake values, shared by every tab until the browser
+// closes so the same original always gets the same fake
+async function getFakeSeed(): Promise<string> {
+  let seed = await storage.getItem<string>('session:fakeSeed');
+  if (!seed) {
+    seed = crypto.randomUUID();
+    await storage.setItem('session:fakeSeed', seed);
+  }
+  return seed;
 }
 
-// Flush queue periodically
-setInterval(() => {
-  detectionQueue.flush();
-}, 30000); // Every 30 seconds
-
-// Flush on browser events
-// Note: onSuspend is Chrome-specific and not available in Firefox
-// Firefox uses different lifecycle events
-if (
-  typeof chrome !== 'undefined' &&
-  chrome.runtime &&
-  chrome.runtime.onSuspend
-) {
-  chrome.runtime.onSuspend.addListener(() => {
-    detectionQueue.flush();
+// Key for the 'hash' anonymization strategy, kept for the life of the
+// install so a value hashes the same way in every document. It lives in the
+// extension's own IndexedDB, which content scripts can't open (they get the
+// page's), rather than in storage.local, which they can read.
+const KEY_DB_NAME = 'pasteproof-keys';
+const KEY_STORE_NAME = 'keys';
+const HASH_KEY_ID = 'hash';
+
+let hashKey: Promise<CryptoKey> | null = null;
+
+function getHashKey(): Promise<CryptoKey> {
+  const load = async () => {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(KEY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const existing = await new Promise<CryptoKey | undefined>(
+      (resolve, reject) => {
+        const request = db
+          .transaction(KEY_STORE_NAME, 'readonly')
+          .objectStore(KEY_STORE_NAME)
+          .get(HASH_KEY_ID);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }
+    );
+    if (existing) return existing;
+
+    const key = await createHashKey();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(KEY_STORE_NAME, 'readwrite');
+      transaction.objectStore(KEY_STORE_NAME).put(key, HASH_KEY_ID);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return key;
+  };
+
+  hashKey ??= load().catch(error => {
+    hashKey = null;
+    throw error;
   });
+  return hashKey;
 }
 
 // Context menu helper function
@@ -99,6 +314,16 @@ function createContextMenu() {
       title: 'Rescan for PII',
       contexts: ['editable'],
     });
+    browser.contextMenus.create({
+      id: 'pasteproof-scan-selection',
+      title: 'Scan selection for PII',
+      contexts: ['selection'],
+    });
+    browser.contextMenus.create({
+      id: 'pasteproof-restore',
+      title: 'Restore pseudonymized values',
+      contexts: ['selection'],
+    });
   } catch (error) {
     console.error('[Paste Proof] Failed to create context menu:', error);
   }
@@ -140,6 +365,35 @@ function isValidExternalOrigin(origin: string | undefined): boolean {
 }
 
 export default defineBackground(() => {
+  // Retries outlive the service worker: the alarm wakes it up to send
+  // whatever is still queued
+  browser.alarms.create(FLUSH_ALARM, { periodInMinutes: 1 });
+  browser.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === FLUSH_ALARM) flushDetections();
+  });
+  globalThis.addEventListener?.('online', flushDetections);
+  flushDetections();
+
+  browser.alarms.create(SYNC_ALARM, {
+    periodInMinutes: SYNC_INTERVAL_MINUTES,
+  });
+  browser.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === SYNC_ALARM) syncConfigNow();
+  });
+  syncConfigNow();
+
+  // A different user, or none: the cached config isn't theirs
+  browser.storage.onChanged.addListener((changes, area) => {
+    if (area === 'local' && changes.authToken) {
+      storage
+        .removeItem(SYNCED_CONFIG_KEY)
+        .then(syncConfigNow)
+        .catch(error => {
+          console.error('[Paste Proof] Failed to reset config:', error);
+        });
+    }
+  });
+
   browser.runtime.onInstalled.addListener(() => {
     // Create context menu on install
     createContextMenu();
@@ -148,6 +402,86 @@ export default defineBackground(() => {
   // Recreate context menu on startup (for Firefox compatibility)
   browser.runtime.onStartup.addListener(() => {
     createContextMenu();
+    removeStaleTokenVaults().catch(error => {
+      console.error('[Paste Proof] Failed to remove token vaults:', error);
+    });
+  });
+
+  browser.tabs.onRemoved.addListener(tabId => {
+    clearTokenVault(tabId).catch(error => {
+      console.error('[Paste Proof] Failed to clear token vault:', error);
+    });
+  });
+
+  // Requests from content scripts, including their API calls. Pseudonymize
+  // and restore are answered for the sending tab's vault only.
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    // From the popup after it changed the whitelist or local config, and
+    // when it settles a clash with the account. Both act on the account with
+    // the user's token, so content scripts (and pages that get script into
+    // them) can't send them.
+    const fromPopup =
+      !sender.tab && sender.url === browser.runtime.getURL('/popup.html');
+    if (
+      (message?.action === 'syncConfig' ||
+        message?.action === 'resolveLocalConflict') &&
+      !fromPopup
+    ) {
+      return false;
+    }
+    if (message?.action === 'syncConfig') {
+      syncConfigNow().then(() => sendResponse({ synced: true }));
+      return true;
+    }
+    if (message?.action === 'resolveLocalConflict') {
+      resolveLocalConflict(message.item)
+        .then(() => sendResponse({ resolved: true }))
+        .catch(error =>
+          sendResponse({
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      return true;
+    }
+
+    const tabId = sender.tab?.id;
+    if (tabId === undefined) return false;
+
+    let response: Promise<unknown>;
+    if (message?.action === 'pseudonymize') {
+      const items: Array<{ type: string; value: string }> = message.items ?? [];
+      response = withTokenVault(tabId, vault => ({
+        tokens: items.map(item => tokenize(vault, item.type, item.value)),
+      }));
+    } else if (message?.action === 'restoreTokens') {
+      response = withTokenVault(tabId, vault =>
+        restoreTokens(vault, String(message.text ?? ''))
+      );
+    } else if (message?.action === 'hashValues') {
+      const items: Array<{ type: string; value: string }> = message.items ?? [];
+      response = getHashKey()
+        .then(key => hashValues(key, items))
+        .then(hashes => ({ hashes }));
+    } else if (message?.action === 'getFakeSeed') {
+      response = getFakeSeed().then(seed => ({ seed }));
+    } else if (message?.action === API_RPC_ACTION) {
+      response = getAuthorizedApiClient().then(client =>
+        handleApiRequest(client, message)
+      );
+    } else if (message?.action === 'queueDetection') {
+      const entry = createQueuedDetection(message.event as DetectionEvent);
+      response = detectionQueue.add(entry).then(() => {
+        scheduleFlush();
+        return { queued: true };
+      });
+    } else {
+      return false;
+    }
+
+    response
+      .then(sendResponse)
+      .catch(error => sendResponse({ error: String(error) }));
+    return true; // Response is sent asynchronously
   });
 
   // Handle context menu clicks
@@ -162,6 +496,31 @@ export default defineBackground(() => {
           console.error('[Paste Proof] Failed to send rescan message:', error);
         });
     }
+
+    // Only the frame holding the selection scans it
+    if (info.menuItemId === 'pasteproof-scan-selection' && tab?.id) {
+      browser.tabs
+        .sendMessage(
+          tab.id,
+          { action: 'scanSelection' },
+          { frameId: info.frameId ?? 0 }
+        )
+        .catch(error => {
+          console.error('[Paste Proof] Failed to send scan message:', error);
+        });
+    }
+
+    // The content script reads the selection itself; selectionText here
+    // has its line breaks collapsed
+    if (info.menuItemId === 'pasteproof-restore' && tab?.id) {
+      browser.tabs
+        .sendMessage(tab.id, {
+          action: 'restoreSelection',
+        })
+        .catch(error => {
+          console.error('[Paste Proof] Failed to send restore message:', error);
+        });
+    }
   });
 
   // SECURITY: Handle external messages with origin validation
@@ -2,77 +2,115 @@
 import {
   detectPii,
   DetectionResult,
+  getSeverity,
+  LOW_CONFIDENCE_THRESHOLD,
+  setActiveLocales,
   setCustomPatterns,
+  setEnabledTypes,
+  setIgnoredTypes,
+  type PiiType,
 } from '@/shared/pii-detector';
 import ReactDOM from 'react-dom/client';
 import type { Root } from 'react-dom/client';
+import type { TeamPolicy } from '@/shared/api-client';
+import { getBackgroundApi } from '@/shared/background-api';
 import {
-  getApiClient,
-  initializeApiClient,
-  type TeamPolicy,
-} from '@/shared/api-client';
-import { SimpleWarningBadge } from '@/shared/components';
+  createEmptyConfig,
+  getActiveTeamPolicy,
+  getSyncedPatterns,
+  SYNCED_CONFIG_KEY,
+  type SyncedConfig,
+} from '@/shared/config-sync';
+import {
+  FileReviewDialog,
+  PageScanPanel,
+  PasteReviewDialog,
+  PolicyNotice,
+  SimpleWarningBadge,
+  SubmitReviewDialog,
+  UndoSnackbar,
+} from '@/shared/components';
 import { aiScanOptimizer } from '@/shared/ai-scan-optimizer';
+import type { DetectionEvent } from '@/shared/detection-queue';
+import { replaceValues } from '@/shared/rich-text';
+import {
+  getCodeEditorRoot,
+  readCodeEditor,
+  replaceInCodeEditor,
+} from '@/shared/code-editors';
+import { isTextFile, scanFiles, type FileScanResult } from '@/shared/file-scan';
+import {
+  appendRangeBoxes,
+  createOverlayLayer,
+  PAGE_SCAN_IGNORE_ATTRIBUTE,
+  scanVisibleText,
+} from '@/shared/page-scan';
+import {
+  EDITABLE_SELECTOR,
+  closestContaining,
+  getComposedParent,
+  getComposedTarget,
+  getDeepActiveElement,
+  getEditingHost,
+  isEditableElement,
+  querySelectorAllDeep,
+} from '@/shared/editable-elements';
+import { DEFAULT_LOCALES } from '@/shared/locale-packs';
+import { getWhitelistExemption } from '@/shared/whitelist';
+import {
+  LOCAL_PATTERNS_KEY,
+  LOCAL_WHITELIST_KEY,
+  type LocalPattern,
+  type LocalWhitelistEntry,
+} from '@/shared/local-config';
+import {
+  applyStrategy,
+  normalizeStrategies,
+  REPLACEMENT_LABEL_REGEX,
+  resolveStrategy,
+  type AnonymizationStrategy,
+} from '@/shared/anonymization';
+import {
+  getComplianceTemplate,
+  getTemplateAction,
+  getTemplateTypes,
+  type ComplianceTemplate,
+  type PolicyAction,
+} from '@/shared/compliance-templates';
+import {
+  getDomainAction,
+  getExplicitDomainAction,
+  resolveDomainPolicy,
+  type DomainPolicy,
+} from '@/shared/domain-policy';
 
 const MIN_TEXT_LENGTH = 10;
 const MAX_TEXT_LENGTH = 5000;
+// How long an anonymize action can be undone, and how many are kept per input
+const UNDO_TIMEOUT_MS = 10000;
+const MAX_UNDO_DEPTH = 5;
+// Presentation mode rescans the page at most this often while it changes
+const MASK_REFRESH_MS = 200;
+
+// Send buttons on chat sites, checked before the message goes out
+const SEND_BUTTON_SELECTOR = [
+  'button[data-testid="send-button"]',
+  'button[aria-label="Send message" i]',
+  'button[aria-label="Send prompt" i]',
+  'button[aria-label="Send" i]',
+].join(', ');
 
 // Detection queue for batch logging
+// Detections are logged by the background worker's persistent queue, which
+// survives tab closes and retries when offline. The background assigns the
+// idempotency key: crypto.randomUUID() isn't available on http:// pages.
 class DetectionQueue {
-  private queue: Array<{
-    type: string;
-    domain: string;
-    action: 'detected' | 'blocked' | 'anonymized';
-    metadata?: Record<string, any>;
-    team_id?: string | null;
-  }> = [];
-  private processing = false;
-  private readonly BATCH_SIZE = 10;
-  private readonly FLUSH_INTERVAL = 5000; // 5 seconds
-
-  constructor() {
-    // Auto-flush periodically
-    setInterval(() => this.flush(), this.FLUSH_INTERVAL);
-  }
-
-  add(detection: {
-    type: string;
-    domain: string;
-    action: 'detected' | 'blocked' | 'anonymized';
-    metadata?: Record<string, any>;
-    team_id?: string | null;
-  }) {
-    this.queue.push(detection);
-
-    // Flush if queue gets large
-    if (this.queue.length >= this.BATCH_SIZE) {
-      this.flush();
-    }
-  }
-
-  async flush() {
-    if (this.processing || this.queue.length === 0) return;
-
-    this.processing = true;
-
-    try {
-      const apiClient = getApiClient();
-      if (!apiClient) {
-        this.processing = false;
-        return;
-      }
-
-      const batch = this.queue.splice(0, this.BATCH_SIZE);
-
-      try {
-        await apiClient.logDetectionsBatch(batch);
-      } catch (error) {
-        console.warn('Failed to log detections batch:', error);
-        // Don't re-queue on failure to avoid infinite loops
-      }
-    } finally {
-      this.processing = false;
-    }
+  add(detection: DetectionEvent) {
+    browser.runtime
+      .sendMessage({ action: 'queueDetection', event: detection })
+      .catch((error: unknown) => {
+        console.warn('Failed to queue detection:', error);
+      });
   }
 }
 
@@ -80,6 +118,10 @@ const detectionQueue = new DetectionQueue();
 
 export default defineContentScript({
   matches: ['<all_urls>'],
+  // Editors are often embedded in iframes, including about:blank ones that
+  // sites fill in from script
+  allFrames: true,
+  matchAboutBlank: true,
 
   async main(ctx) {
     let authToken = await storage.getItem<string>('local:authToken');
@@ -90,6 +132,11 @@ export default defineContentScript({
       return;
     }
 
+    // Gives access to Monaco and CodeMirror models, see code-editors.ts
+    injectScript('/editor-bridge.js').catch((error: unknown) =>
+      console.warn('PasteProof: could not inject the editor bridge', error)
+    );
+
     // ============================================
     // AUTH LISTENERS
     // ============================================
@@ -148,8 +195,6 @@ export default defineContentScript({
         await storage.setItem('local:user', event.data.user);
 
         authToken = event.data.authToken;
-
-        initializeApiClient(event.data.authToken);
       }
     });
 
@@ -160,7 +205,6 @@ export default defineContentScript({
       await storage.setItem('local:user', user);
 
       authToken = token;
-      initializeApiClient(token);
     });
 
     // Check localStorage on auth page (legacy support - migrate to extension storage)
@@ -205,7 +249,6 @@ export default defineContentScript({
             localStorage.removeItem('pasteproof_user');
 
             authToken = token;
-            initializeApiClient(token);
           } catch (parseError) {
             console.warn(
               'Failed to parse user data from localStorage:',
@@ -218,31 +261,107 @@ export default defineContentScript({
       }
     }
 
-    if (authToken) {
-      const currentDomain = window.location.hostname;
-      try {
-        const response = await fetch(
-          `${import.meta.env.VITE_API_URL}/v1/whitelist/check`,
-          {
-            method: 'POST',
-            headers: {
-              'X-API-Key': authToken,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ domain: currentDomain }),
-          }
-        );
-        const data = await response.json();
+    // API calls go through the background, which holds the user's key
+    const apiClient = getBackgroundApi();
+
+    // Patterns, team policies and whitelist as last synced by the
+    // background; usable offline and without waiting for the API
+    let syncedConfig =
+      (await storage.getItem<SyncedConfig>(SYNCED_CONFIG_KEY)) ??
+      createEmptyConfig();
+    // Saved on this device, signed in or not; see shared/local-config.ts
+    let localPatterns =
+      (await storage.getItem<LocalPattern[]>(LOCAL_PATTERNS_KEY)) ?? [];
+    const localWhitelist =
+      (await storage.getItem<LocalWhitelistEntry[]>(LOCAL_WHITELIST_KEY)) ?? [];
+
+    // What this page's whitelist entries turn off. Only checked on load, so
+    // path-scoped entries follow full page navigations.
+    const whitelistExemption = getWhitelistExemption(
+      [...syncedConfig.whitelist, ...localWhitelist],
+      window.location.hostname,
+      window.location.pathname
+    );
+    if (whitelistExemption.all) {
+      return;
+    }
+    setIgnoredTypes(whitelistExemption.piiTypes);
+
+    // Compliance template from the team policy wins over the user's own choice
+    let activeTemplate: ComplianceTemplate | null = null;
+    let teamTemplateId: string | null = null;
+    // Team policy's blacklist, whitelist and per-domain rules for this site
+    let domainPolicy: DomainPolicy | null = null;
+
+    const applyDetectionSettings = async () => {
+      const userLocales =
+        (await storage.getItem<string[]>('local:locales')) ?? DEFAULT_LOCALES;
+      const userTemplateId = await storage.getItem<string>(
+        'local:complianceTemplate'
+      );
 
-        if (data.whitelisted) {
-          return;
+      activeTemplate = getComplianceTemplate(teamTemplateId ?? userTemplateId);
+      setEnabledTypes(activeTemplate ? getTemplateTypes(activeTemplate) : null);
+      setActiveLocales([
+        ...new Set([...userLocales, ...(activeTemplate?.locales ?? [])]),
+      ]);
+    };
+
+    const getPolicyAction = (type: string): PolicyAction =>
+      getDomainAction(
+        domainPolicy,
+        type,
+        activeTemplate ? getTemplateAction(activeTemplate, type) : 'warn'
+      );
+
+    // Copy and cut are only acted on where a policy says what to do with the
+    // type; without one, copying an email address is nothing to warn about
+    const getCopyAction = (type: string): PolicyAction | null =>
+      getExplicitDomainAction(
+        domainPolicy,
+        type,
+        activeTemplate?.types.includes(type as PiiType)
+          ? getTemplateAction(activeTemplate, type)
+          : null
+      );
+
+    // Per-type anonymization strategies from the popup; the team policy's
+    // table wins. The fake seed is shared by all tabs for the browser
+    // session so a value gets the same fake everywhere.
+    let anonymizationStrategies: Partial<
+      Record<string, AnonymizationStrategy>
+    > = {};
+    let teamStrategies: Partial<Record<string, AnonymizationStrategy>> = {};
+    let fakeSeed = '';
+    // Fakes put in by anonymizeValues, so they aren't flagged again
+    const syntheticValues = new Set<string>();
+
+    const loadAnonymizationSettings = async () => {
+      anonymizationStrategies = normalizeStrategies(
+        await storage.getItem('local:anonymizationStrategies')
+      );
+      if (!fakeSeed) {
+        try {
+          const response = await browser.runtime.sendMessage({
+            action: 'getFakeSeed',
+          });
+          fakeSeed = response?.seed ?? '';
+        } catch {
+          // Background unavailable; fall back to a seed for this page only
         }
-      } catch (error) {
-        console.error('Failed to check whitelist:', error);
+        // getRandomValues, unlike randomUUID, works on http:// pages too
+        fakeSeed ||= Array.from(crypto.getRandomValues(new Uint8Array(16)), b =>
+          b.toString(16).padStart(2, '0')
+        ).join('');
       }
-    }
+    };
+
+    await applyDetectionSettings();
+    await loadAnonymizationSettings();
+    const applyCustomPatterns = () =>
+      setCustomPatterns([...getSyncedPatterns(syncedConfig), ...localPatterns]);
 
-    await initializeCustomPatterns();
+    applyCustomPatterns();
 
     // Initialize team policies
     let activeTeamPolicy: TeamPolicy | null = null;
@@ -260,6 +379,10 @@ export default defineContentScript({
 
     // Initialize team policies on page load
     async function initializeWithTeamPolicies() {
+      activeTeamPolicy = null;
+      teamTemplateId = null;
+      domainPolicy = null;
+      teamStrategies = {};
       try {
         // Get team_id from extension storage (preferred) or localStorage (legacy)
         // SECURITY: Prefer extension storage over localStorage
@@ -286,13 +409,7 @@ export default defineContentScript({
           return;
         }
 
-        const apiClient = getApiClient();
-        if (!apiClient) {
-          return;
-        }
-
-        const policies = await apiClient.getTeamPolicies(teamId);
-        const activePolicy = policies.find(p => p.enabled);
+        const activePolicy = getActiveTeamPolicy(syncedConfig, teamId);
 
         if (activePolicy) {
           activeTeamPolicy = activePolicy;
@@ -303,17 +420,21 @@ export default defineContentScript({
               ? JSON.parse(activePolicy.policy_data)
               : activePolicy.policy_data;
 
-          const { domainRules, domainBlacklist } = policyData;
-
-          // Check if current domain is blacklisted
-          const currentDomain = window.location.hostname;
-          if (domainBlacklist?.includes(currentDomain)) {
-            // TODO: Show warning/block
-          }
+          teamTemplateId = policyData.complianceTemplate ?? null;
+          teamStrategies = normalizeStrategies(
+            policyData.anonymizationStrategies
+          );
+          domainPolicy = resolveDomainPolicy(
+            policyData,
+            window.location.hostname,
+            window.location.pathname
+          );
         }
       } catch (error) {
         console.error('Error loading team policies:', error);
       }
+
+      await applyDetectionSettings();
     }
 
     // Helper function to get current team_id
@@ -370,10 +491,8 @@ export default defineContentScript({
         ];
         return textTypes.includes(input.type.toLowerCase());
       }
-      if (element.getAttribute('contenteditable') === 'true') {
-        return true;
-      }
-      return false;
+      // Only the editing host: inherited editable descendants belong to it
+      return getEditingHost(element) === element;
     };
 
     // Detect the expected data type based on input attributes
@@ -568,107 +687,300 @@ export default defineContentScript({
       return expectedTypes.size > 0;
     };
 
-    const anonymizeValue = (detection: DetectionResult): string => {
-      switch (detection.type) {
-        case 'CREDIT_CARD':
-          const cleaned = detection.value.replace(/\s/g, '');
-          const last4 = cleaned.slice(-4);
-          const masked = '•'.repeat(cleaned.length - 4);
-          if (detection.value.includes(' ')) {
-            return (
-              masked.match(/.{1,4}/g)?.join(' ') + ' ' + last4 ||
-              detection.value
-            );
-          }
-          return masked + last4;
-
-        case 'EMAIL':
-          const [user, domain] = detection.value.split('@');
-          if (!user || !domain) return '[REDACTED]';
-          const maskedUser = user[0] + '•'.repeat(Math.max(user.length - 1, 2));
-          return `${maskedUser}@${domain}`;
-
-        case 'SSN':
-          // Redact entire SSN for security - even partial SSNs can be sensitive
-          return detection.value.replace(/\d/g, '•');
-        case 'PHONE':
-          return detection.value.replace(/(\d)/g, (match, _, offset) => {
-            const digitsToEnd = (
-              detection.value.substring(offset).match(/\d/g) || []
-            ).length;
-            return digitsToEnd > 4 ? '•' : match;
-          });
-        default:
-          return '[REDACTED]';
+    // Swap values for reversible tokens such as <EMAIL_1>. The mapping is
+    // kept in this tab's encrypted vault by the background script.
+    const pseudonymizeValues = async (
+      detections: DetectionResult[]
+    ): Promise<string[] | null> => {
+      try {
+        const response = await browser.runtime.sendMessage({
+          action: 'pseudonymize',
+          items: detections.map(d => ({ type: d.type, value: d.value })),
+        });
+        return Array.isArray(response?.tokens) ? response.tokens : null;
+      } catch (error) {
+        console.error('Failed to pseudonymize values:', error);
+        return null;
       }
     };
 
-    // Helper function to replace text in DOM while preserving structure
-    const replaceTextInNode = (
-      node: Node,
-      searchValue: string,
-      replaceValue: string
-    ): boolean => {
-      let replaced = false;
-
-      if (node.nodeType === Node.TEXT_NODE) {
-        const text = node.textContent || '';
-        if (text.includes(searchValue)) {
-          node.textContent = text.replace(
-            new RegExp(searchValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'),
-            replaceValue
-          );
-          replaced = true;
+    // Hashes are keyed with a secret only the background holds; a failed
+    // request falls back to the type label rather than the value
+    const hashDetections = async (
+      detections: DetectionResult[]
+    ): Promise<string[]> => {
+      try {
+        const response = await browser.runtime.sendMessage({
+          action: 'hashValues',
+          items: detections.map(d => ({ type: d.type, value: d.value })),
+        });
+        if (Array.isArray(response?.hashes)) return response.hashes;
+      } catch (error) {
+        console.error('Failed to hash values:', error);
+      }
+      return detections.map(d => `[${d.type}]`);
+    };
+
+    const getStrategy = (type: string) =>
+      resolveStrategy(type, anonymizationStrategies, teamStrategies);
+
+    // Replacements for `detections`, in order. Values whose strategy is
+    // 'tokenize' go to the vault in one request and those to 'hash' to the
+    // background in another; `tokenizeAll` is used by Pseudonymize All.
+    // Returns null if the vault can't be reached rather than masking values
+    // the user wanted to get back.
+    const anonymizeValues = async (
+      detections: DetectionResult[],
+      tokenizeAll = false
+    ): Promise<string[] | null> => {
+      const strategies = detections.map(d =>
+        tokenizeAll ? 'tokenize' : getStrategy(d.type)
+      );
+      const toTokenize = detections.filter(
+        (_, i) => strategies[i] === 'tokenize'
+      );
+      const tokens =
+        toTokenize.length > 0 ? await pseudonymizeValues(toTokenize) : [];
+      if (!tokens) return null;
+      const toHash = detections.filter((_, i) => strategies[i] === 'hash');
+      const hashes = toHash.length > 0 ? await hashDetections(toHash) : [];
+
+      let tokenIndex = 0;
+      let hashIndex = 0;
+      return detections.map((detection, i) => {
+        if (strategies[i] === 'tokenize') return tokens[tokenIndex++];
+        if (strategies[i] === 'hash') return hashes[hashIndex++];
+
+        const replacement =
+          applyStrategy(detection, strategies[i], fakeSeed) ?? '[REDACTED]';
+        if (strategies[i] === 'fake') syntheticValues.add(replacement);
+        return replacement;
+      });
+    };
+
+    // Set an input's value the way frameworks (React, Vue, ...) notice it:
+    // through the native setter, followed by the events typing would fire
+    const setInputValue = (
+      input: HTMLInputElement | HTMLTextAreaElement,
+      newValue: string
+    ) => {
+      const nativeSetter = Object.getOwnPropertyDescriptor(
+        input.tagName === 'INPUT'
+          ? window.HTMLInputElement.prototype
+          : window.HTMLTextAreaElement.prototype,
+        'value'
+      )?.set;
+
+      if (nativeSetter) {
+        nativeSetter.call(input, newValue);
+      } else {
+        input.value = newValue;
+      }
+
+      input.setAttribute('value', newValue);
+
+      const events = [
+        new Event('input', { bubbles: true, cancelable: true }),
+        new Event('change', { bubbles: true, cancelable: true }),
+        new InputEvent('input', {
+          bubbles: true,
+          cancelable: true,
+          inputType: 'insertText',
+          data: newValue,
+        }),
+        new Event('blur', { bubbles: true }),
+        new Event('keyup', { bubbles: true }),
+      ];
+
+      events.forEach(event => {
+        try {
+          input.dispatchEvent(event);
+        } catch (e) {
+          console.warn('Failed to dispatch event:', event.type, e);
         }
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
-        // Recursively process child nodes
-        const children = Array.from(node.childNodes);
-        for (const child of children) {
-          if (replaceTextInNode(child, searchValue, replaceValue)) {
-            replaced = true;
-          }
+      });
+    };
+
+    // Short-lived undo history of anonymize actions, per input
+    type UndoEntry = {
+      // Input value, or innerHTML for contenteditable
+      previousValue: string;
+      // Set when the edit went through a Monaco/CodeMirror model
+      codeEditor: boolean;
+      changes: Array<{ value: string; replacement: string }>;
+      detections: DetectionResult[];
+      expires: number;
+    };
+    const undoStacks = new WeakMap<HTMLElement, UndoEntry[]>();
+    let undoRoot: Root | null = null;
+    let undoContainer: HTMLDivElement | null = null;
+
+    const removeUndoSnackbar = () => {
+      undoRoot?.unmount();
+      undoContainer?.remove();
+      undoRoot = null;
+      undoContainer = null;
+    };
+
+    const pushUndo = (input: HTMLElement, entry: UndoEntry) => {
+      const stack = (undoStacks.get(input) ?? []).filter(
+        e => e.expires > Date.now()
+      );
+      stack.push(entry);
+      undoStacks.set(input, stack.slice(-MAX_UNDO_DEPTH));
+    };
+
+    const undoAnonymize = async (input: HTMLElement) => {
+      removeUndoSnackbar();
+      const stack = (undoStacks.get(input) ?? []).filter(
+        e => e.expires > Date.now()
+      );
+      const entry = stack.pop();
+      undoStacks.set(input, stack);
+      if (!entry) return;
+
+      isAnonymizing = true;
+      // Put the originals back through the editor so its state and undo
+      // history follow. That only works if every replacement can be found
+      // again.
+      const replacements = entry.changes.map(c => c.replacement);
+      const reversible =
+        replacements.every(Boolean) &&
+        new Set(replacements).size === replacements.length;
+      const reverse = entry.changes.map(c => ({
+        value: c.replacement,
+        replacement: c.value,
+      }));
+      const editorRoot = getCodeEditorRoot(input);
+
+      if (entry.codeEditor && editorRoot) {
+        // The model is the only copy of the text, so there's no markup to
+        // fall back to
+        if (reversible) replaceInCodeEditor(editorRoot, reverse);
+      } else if (isEditableElement(input)) {
+        // Otherwise restore the markup as it was
+        const restored = reversible ? replaceValues(input, reverse) : 0;
+        if (restored === 0) {
+          input.innerHTML = entry.previousValue;
+          input.dispatchEvent(new Event('input', { bubbles: true }));
         }
+      } else {
+        setInputValue(
+          input as HTMLInputElement | HTMLTextAreaElement,
+          entry.previousValue
+        );
+      }
+
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      entry.detections.forEach(detection => {
+        detectionQueue.add({
+          type: detection.type,
+          domain,
+          action: 'undone',
+          metadata: {
+            originalLength: detection.value.length,
+            severity: detection.severity ?? getSeverity(detection.type),
+          },
+          team_id: teamId,
+        });
+      });
+
+      if (activeInput === input) {
+        handleDetection(
+          filterExpectedDetections(
+            detectPii(getInputValue(input)),
+            getExpectedInputType(input)
+          ),
+          null
+        );
       }
+      setTimeout(() => {
+        isAnonymizing = false;
+      }, 50);
+    };
 
-      return replaced;
+    const showUndoSnackbar = (input: HTMLElement, message: string) => {
+      removeUndoSnackbar();
+      undoContainer = document.createElement('div');
+      document.body.appendChild(undoContainer);
+      undoRoot = ReactDOM.createRoot(undoContainer);
+      undoRoot.render(
+        <UndoSnackbar
+          message={message}
+          duration={UNDO_TIMEOUT_MS}
+          onUndo={() => undoAnonymize(input)}
+          onClose={removeUndoSnackbar}
+        />
+      );
     };
 
-    const handleAnonymize = async (detections: DetectionResult[]) => {
+    // `enforced` is set when a compliance policy, not the user, triggered
+    // the replacement; the log then records the policy's action
+    const handleAnonymize = async (
+      detections: DetectionResult[],
+      enforced = false,
+      mode: 'mask' | 'pseudonymize' = 'mask'
+    ) => {
       if (!activeInput) return;
 
+      // Sort detections by value length (longest first) to avoid partial replacements
+      const sortedDetections = [...detections].sort(
+        (a, b) => b.value.length - a.value.length
+      );
+
+      const replacements = await anonymizeValues(
+        sortedDetections,
+        mode === 'pseudonymize'
+      );
+      if (!replacements || !activeInput) return;
+
       // Set flag to prevent input handlers from interfering
       isAnonymizing = true;
 
       // Keep popup open if only anonymizing single items (not "Anonymize All")
       keepPopupOpenAfterAnonymize = detections.length === 1 && isPopupOpen;
 
-      const isContentEditable =
-        activeInput.getAttribute('contenteditable') === 'true';
-
-      // Sort detections by value length (longest first) to avoid partial replacements
-      const sortedDetections = [...detections].sort(
-        (a, b) => b.value.length - a.value.length
-      );
+      const isContentEditable = isEditableElement(activeInput);
+      const anonymizedInput: HTMLElement = activeInput;
+      const previousValue = isContentEditable
+        ? activeInput.innerHTML
+        : activeInput.value;
+
+      // Monaco and CodeMirror are edited through their model; the DOM only
+      // holds the visible lines. Falls through when the model isn't
+      // reachable.
+      const editorRoot = getCodeEditorRoot(activeInput);
+      const codeEditor =
+        !!editorRoot &&
+        replaceInCodeEditor(
+          editorRoot,
+          sortedDetections.map((d, i) => ({
+            value: d.value,
+            replacement: replacements[i],
+          }))
+        ) !== null;
 
       // Set the new value based on element type
-      if (isContentEditable) {
+      if (codeEditor) {
+        // Nothing left to do, the model has the new text
+      } else if (isContentEditable) {
         // Save current AI detections before modifying content
         const currentAiDetections = badgeRoot
           ? (activeInput as any).__pasteproofAiDetections
           : null;
 
-        // Use DOM manipulation to preserve HTML structure, formatting, and line breaks
-        // This avoids the double-spacing issue that occurs with innerText
-        sortedDetections.forEach(d => {
-          const anonymized = anonymizeValue(d);
-          if (activeInput) {
-            replaceTextInNode(activeInput as Node, d.value, anonymized);
-          }
-        });
-
-        activeInput.dispatchEvent(
-          new Event('input', { bubbles: true, cancelable: true })
+        // Replace through DOM ranges and the editor's input pipeline so
+        // values split across nodes are caught and undo history survives
+        replaceValues(
+          activeInput,
+          sortedDetections.map((d, i) => ({
+            value: d.value,
+            replacement: replacements[i],
+            start: d.start,
+          }))
         );
+
         activeInput.dispatchEvent(
           new Event('change', { bubbles: true, cancelable: true })
         );
@@ -684,8 +996,8 @@ export default defineContentScript({
 
         // Replace all detected values with anonymized versions
         // SECURITY: Use literal string replacement to prevent regex injection
-        sortedDetections.forEach(d => {
-          const anonymized = anonymizeValue(d);
+        sortedDetections.forEach((d, i) => {
+          const anonymized = replacements[i];
           // Escape special regex characters in the search string for literal replacement
           const escapedValue = d.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
           newValue = newValue.replace(
@@ -694,41 +1006,7 @@ export default defineContentScript({
           );
         });
 
-        const nativeSetter = Object.getOwnPropertyDescriptor(
-          input.tagName === 'INPUT'
-            ? window.HTMLInputElement.prototype
-            : window.HTMLTextAreaElement.prototype,
-          'value'
-        )?.set;
-
-        if (nativeSetter) {
-          nativeSetter.call(input, newValue);
-        } else {
-          input.value = newValue;
-        }
-
-        input.setAttribute('value', newValue);
-
-        const events = [
-          new Event('input', { bubbles: true, cancelable: true }),
-          new Event('change', { bubbles: true, cancelable: true }),
-          new InputEvent('input', {
-            bubbles: true,
-            cancelable: true,
-            inputType: 'insertText',
-            data: newValue,
-          }),
-          new Event('blur', { bubbles: true }),
-          new Event('keyup', { bubbles: true }),
-        ];
-
-        events.forEach(event => {
-          try {
-            input.dispatchEvent(event);
-          } catch (e) {
-            console.warn('Failed to dispatch event:', event.type, e);
-          }
-        });
+        setInputValue(input, newValue);
 
         // Don't blur/focus during single anonymization - it closes the popup
         // Only do this for "Anonymize All" scenarios
@@ -742,6 +1020,25 @@ export default defineContentScript({
         }
       }
 
+      // Policy-enforced replacements can't be undone
+      if (!enforced) {
+        pushUndo(anonymizedInput, {
+          previousValue,
+          codeEditor,
+          changes: sortedDetections.map((d, i) => ({
+            value: d.value,
+            replacement: replacements[i],
+          })),
+          detections: sortedDetections,
+          expires: Date.now() + UNDO_TIMEOUT_MS,
+        });
+        const count = sortedDetections.length;
+        showUndoSnackbar(
+          anonymizedInput,
+          `${mode === 'pseudonymize' ? 'Pseudonymized' : 'Anonymized'} ${count} item${count !== 1 ? 's' : ''}`
+        );
+      }
+
       // Log anonymizations
       const domain = window.location.hostname;
       const teamId = await getCurrentTeamId();
@@ -749,10 +1046,19 @@ export default defineContentScript({
         detectionQueue.add({
           type: detection.type,
           domain,
-          action: 'anonymized',
+          action:
+            enforced && getPolicyAction(detection.type) === 'block'
+              ? 'blocked'
+              : 'anonymized',
           metadata: {
             originalLength: detection.value.length,
             pattern: detection.patternName,
+            severity: detection.severity ?? getSeverity(detection.type),
+            complianceTemplate: enforced ? activeTemplate?.id : undefined,
+            strategy:
+              mode === 'pseudonymize'
+                ? 'tokenize'
+                : (getStrategy(detection.type) ?? 'redact'),
           },
           team_id: teamId,
         });
@@ -829,6 +1135,9 @@ export default defineContentScript({
       }
     };
 
+    const handlePseudonymize = (detections: DetectionResult[]) =>
+      handleAnonymize(detections, false, 'pseudonymize');
+
     const isAlreadyRedacted = (text: string): boolean => {
       // Check if the text contains common redaction patterns
       const redactionPatterns = [
@@ -838,6 +1147,8 @@ export default defineContentScript({
         /•{4,}/g, // Multiple dots (••••)
         /\*{4,}/g, // Multiple asterisks (****)
         /X{4,}/gi, // Multiple X's (XXXX)
+        /<[A-Z0-9_]+_\d+>/g, // Pseudonymization tokens (<EMAIL_1>)
+        REPLACEMENT_LABEL_REGEX, // Type labels and hashes ([EMAIL])
       ];
 
       return redactionPatterns.some(pattern => pattern.test(text));
@@ -852,130 +1163,47 @@ export default defineContentScript({
         .replace(/•+/g, '')
         .replace(/\*+/g, '')
         .replace(/X{4,}/gi, '')
+        .replace(/<[A-Z0-9_]+_\d+>/g, '')
+        .replace(new RegExp(REPLACEMENT_LABEL_REGEX.source, 'g'), '')
         .trim();
 
       // If there's very little content left after removing redactions, skip AI scan
       return cleanedText.length >= MIN_TEXT_LENGTH;
     };
 
-    // High-confidence patterns that should be detected locally and redacted before AI
-    const highConfidencePatterns = [
-      {
-        type: 'API_KEY',
-        pattern:
-          /(?:api[_-]?key|apikey)["\s:=]+["']?([a-zA-Z0-9_\-]{20,})["']?/gi,
-      },
-      {
-        type: 'AWS_KEY',
-        pattern: /AKIA[0-9A-Z]{16}/g,
-      },
-      {
-        type: 'PRIVATE_KEY',
-        pattern:
-          /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----[A-Za-z0-9+\/=\s\n\r]+-----END (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gs,
-      },
-      {
-        type: 'SSN',
-        pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
-      },
-      {
-        type: 'CREDIT_CARD',
-        // Match card numbers with optional spaces/dashes: allows formats like:
-        // 4242424242424242, 4242 4242 4242 4242, 4242-4242-4242-4242
-        pattern:
-          /\b(?:(?:4\d{3}[-\s]?){3}\d{1,4}|(?:5[1-5]\d{2}[-\s]?)(?:\d{4}[-\s]?){3}\d{4}|(?:3[47]\d{2}[-\s]?)(?:\d{4}[-\s]?){2}\d{4}|(?:3[0-9]\d{2}[-\s]?)(?:\d{4}[-\s]?){2}\d{3}|(?:6(?:011|5[0-9]{2})[-\s]?)(?:\d{4}[-\s]?){3}\d{4})\b/g,
-      },
+    // High-confidence types that are detected locally and redacted before AI
+    const highConfidenceTypes: PiiType[] = [
+      'API_KEY',
+      'AWS_KEY',
+      'PRIVATE_KEY',
+      'PASSWORD',
+      'SLACK_TOKEN',
+      'JWT',
+      'GITHUB_TOKEN',
+      'GCP_SERVICE_ACCOUNT',
+      'HIGH_ENTROPY_SECRET',
+      'SSN',
+      'CREDIT_CARD',
       // HIPAA patterns
-      {
-        type: 'HIPAA_MRN',
-        pattern: /\bMRN[-\s]?\d{6,12}\b/gi,
-      },
-      {
-        type: 'HIPAA_ACCOUNT',
-        pattern: /\bAccount[-\s]?(?:Number|#)?[-\s]?\d{6,12}\b/gi,
-      },
-      {
-        type: 'HIPAA_DOB',
-        pattern:
-          /\b(?:DOB|Date of Birth)[-\s:]?\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/gi,
-      },
+      'HIPAA_MRN',
+      'HIPAA_ACCOUNT',
+      'HIPAA_DOB',
       // PCI-DSS patterns
-      {
-        type: 'PCI_CVV',
-        pattern:
-          /\b(?:CVV|CVC|Card Verification)[-\s]?(?:Value|Code)?[-\s]?\d{3,4}\b/gi,
-      },
-      {
-        type: 'PCI_PAN',
-        pattern: /\b(?:PAN|Primary Account Number)[-\s]?\d{13,19}\b/gi,
-      },
-      {
-        type: 'PCI_TRACK',
-        pattern: /\b%?[A-Z]\d{13,19}=[\d?]{4,}\b/g,
-      },
-      {
-        type: 'PCI_EXPIRY',
-        pattern: /\b(?:Exp|Expiry|Expiration)[-\s:]?\d{1,2}[/-]\d{2,4}\b/gi,
-      },
+      'PCI_CVV',
+      'PCI_PAN',
+      'PCI_TRACK',
+      'PCI_EXPIRY',
       // GDPR patterns
-      {
-        type: 'GDPR_PASSPORT',
-        pattern:
-          /\b(?:Passport|Passport Number|Passport #)[-\s:]?[A-Z0-9]{6,9}\b/gi,
-      },
-      {
-        type: 'GDPR_NIN',
-        pattern: /\b(?:NI|NINO|National Insurance)[-\s]?[A-Z]{2}\d{6}[A-Z]\b/gi,
-      },
-      {
-        type: 'GDPR_IBAN',
-        pattern: /\b[A-Z]{2}\d{2}[A-Z0-9]{4,30}\b/g,
-      },
+      'GDPR_PASSPORT',
+      'GDPR_NIN',
+      'GDPR_IBAN',
+      // Banking patterns
+      'ABA_ROUTING',
     ];
 
-    // Detect high-confidence patterns locally
-    const detectLocally = (
-      text: string,
-      patterns: Array<{ type: string; pattern: RegExp }>
-    ): Array<{ type: string; value: string; start?: number; end?: number }> => {
-      const detections: Array<{
-        type: string;
-        value: string;
-        start?: number;
-        end?: number;
-      }> = [];
-
-      for (const { type, pattern } of patterns) {
-        // Reset regex lastIndex for global patterns
-        pattern.lastIndex = 0;
-        const matches = text.matchAll(pattern);
-
-        for (const match of matches) {
-          const value = match[0];
-          detections.push({
-            type,
-            value,
-            start: match.index,
-            end:
-              match.index !== undefined
-                ? match.index + value.length
-                : undefined,
-          });
-        }
-      }
-
-      // Remove duplicates
-      return detections.filter(
-        (result, index, self) =>
-          index ===
-          self.findIndex(
-            r =>
-              r.type === result.type &&
-              r.value === result.value &&
-              r.start === result.start
-          )
-      );
-    };
+    // Detect high-confidence patterns locally with the shared detector
+    const detectLocally = (text: string): DetectionResult[] =>
+      detectPii(text, { types: highConfidenceTypes, customPatterns: [] });
 
     // Redact detected secrets from text
     const redactSecrets = (
@@ -1031,7 +1259,7 @@ export default defineContentScript({
       }
 
       // Detect high-confidence patterns locally first
-      const localDetections = detectLocally(text, highConfidencePatterns);
+      const localDetections = detectLocally(text);
 
       // Filter out local detections that are already detected by pattern detections
       // This prevents duplicates between Pattern Match and AI Scan tabs
@@ -1057,12 +1285,13 @@ export default defineContentScript({
             domain,
             action: 'detected',
             metadata: {
-              confidence: 100,
+              confidence: Math.round((detection.confidence ?? 1) * 100),
               reason:
                 detection.type === 'PRIVATE_KEY' || detection.type === 'AWS_KEY'
                   ? 'High-confidence local detection - not sent to AI'
                   : 'Detected locally - high confidence pattern',
               risk_level: 'critical',
+              severity: detection.severity,
               source: 'local',
             },
             team_id: teamId,
@@ -1083,8 +1312,7 @@ export default defineContentScript({
       const redactedText = redactSecrets(text, localDetections);
 
       try {
-        const apiClient = getApiClient();
-        if (!apiClient) {
+        if (!authToken || whitelistExemption.ai) {
           return null;
         }
 
@@ -1307,23 +1535,44 @@ export default defineContentScript({
       detections: DetectionResult[],
       aiDetections: any[] | null = null
     ) => {
+      // Apply the compliance template's actions before showing anything. A
+      // value already in the field can't be blocked, so block redacts it the
+      // same way anonymize does and is logged as blocked.
+      const enforced = isAnonymizing
+        ? []
+        : detections.filter(
+            d =>
+              (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD &&
+              getPolicyAction(d.type) !== 'warn'
+          );
+      if (enforced.length > 0 && activeInput) {
+        await handleAnonymize(enforced, true);
+        return;
+      }
+
       // Log pattern-based detections
       if (detections.length > 0 && !badgeContainer && !dotContainer) {
         const domain = window.location.hostname;
         const teamId = await getCurrentTeamId();
-        detections.forEach(detection => {
-          detectionQueue.add({
-            type: detection.type,
-            domain,
-            action: 'detected',
-            metadata: {
-              confidence: detection.confidence,
-              pattern: detection.patternName,
-              source: 'pattern',
-            },
-            team_id: teamId,
+        detections
+          .filter(d => (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD)
+          .forEach(detection => {
+            detectionQueue.add({
+              type: detection.type,
+              domain,
+              action: 'detected',
+              metadata: {
+                confidence:
+                  detection.confidence !== undefined
+                    ? Math.round(detection.confidence * 100)
+                    : undefined,
+                severity: detection.severity ?? getSeverity(detection.type),
+                pattern: detection.patternName,
+                source: 'pattern',
+              },
+              team_id: teamId,
+            });
           });
-        });
       }
 
       const hasPatternDetections = detections.length > 0;
@@ -1351,6 +1600,7 @@ export default defineContentScript({
             <SimpleWarningBadge
               detections={detections}
               onAnonymize={handleAnonymize}
+              onPseudonymize={handlePseudonymize}
               onPopupStateChange={isOpen => {
                 isPopupOpen = isOpen;
               }}
@@ -1358,6 +1608,7 @@ export default defineContentScript({
               initialAiDetections={aiDetections || undefined}
               variant="full"
               autoAiEnabled={autoAiScan}
+              aiDisabled={whitelistExemption.ai}
             />
           );
         } else if (badgeRoot) {
@@ -1365,6 +1616,7 @@ export default defineContentScript({
             <SimpleWarningBadge
               detections={detections}
               onAnonymize={handleAnonymize}
+              onPseudonymize={handlePseudonymize}
               onPopupStateChange={isOpen => {
                 isPopupOpen = isOpen;
               }}
@@ -1372,6 +1624,7 @@ export default defineContentScript({
               initialAiDetections={aiDetections || undefined}
               variant="full"
               autoAiEnabled={autoAiScan}
+              aiDisabled={whitelistExemption.ai}
             />
           );
         }
@@ -1389,6 +1642,7 @@ export default defineContentScript({
             <SimpleWarningBadge
               detections={[]}
               onAnonymize={handleAnonymize}
+              onPseudonymize={handlePseudonymize}
               onPopupStateChange={isOpen => {
                 isPopupOpen = isOpen;
               }}
@@ -1397,6 +1651,7 @@ export default defineContentScript({
               variant="dot"
               alwaysShowDot={true}
               autoAiEnabled={autoAiScan}
+              aiDisabled={whitelistExemption.ai}
             />
           );
         } else if (dotRoot) {
@@ -1404,6 +1659,7 @@ export default defineContentScript({
             <SimpleWarningBadge
               detections={[]}
               onAnonymize={handleAnonymize}
+              onPseudonymize={handlePseudonymize}
               onPopupStateChange={isOpen => {
                 isPopupOpen = isOpen;
               }}
@@ -1412,6 +1668,7 @@ export default defineContentScript({
               variant="dot"
               alwaysShowDot={true}
               autoAiEnabled={autoAiScan}
+              aiDisabled={whitelistExemption.ai}
             />
           );
         }
@@ -1449,10 +1706,15 @@ export default defineContentScript({
     const getInputValue = (
       element: HTMLInputElement | HTMLTextAreaElement | HTMLElement
     ): string => {
+      // Monaco's textarea and CodeMirror's DOM only hold what's on screen
+      const editorRoot = getCodeEditorRoot(element);
+      const editorValue = editorRoot ? readCodeEditor(editorRoot) : null;
+      if (editorValue !== null) return editorValue;
+
       if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
         return (element as HTMLInputElement | HTMLTextAreaElement).value;
       }
-      if (element.getAttribute('contenteditable') === 'true') {
+      if (isEditableElement(element)) {
         // Use innerText to preserve line breaks (unlike textContent)
         return (element as HTMLElement).innerText || '';
       }
@@ -1464,10 +1726,11 @@ export default defineContentScript({
       detections: DetectionResult[],
       expectedTypes: Set<string>
     ): DetectionResult[] => {
-      if (expectedTypes.size === 0) return detections;
+      const results = detections.filter(d => !syntheticValues.has(d.value));
+      if (expectedTypes.size === 0) return results;
 
       // Filter out detections that match the expected input type
-      return detections.filter(d => !expectedTypes.has(d.type));
+      return results.filter(d => !expectedTypes.has(d.type));
     };
 
     // Helper function to deduplicate detections based on value and position
@@ -1627,48 +1890,1175 @@ export default defineContentScript({
         }, 0);
       });
 
-      if (input.getAttribute('contenteditable') === 'true') {
+      if (isEditableElement(input)) {
         input.addEventListener('keyup', handler);
       }
     };
 
-    // Context menu setup
-    document.addEventListener('contextmenu', event => {
-      const target = event.target as HTMLElement;
+    // Show a toast when a policy stops an action outright
+    let noticeRoot: Root | null = null;
+    let noticeContainer: HTMLDivElement | null = null;
 
-      if (isValidInput(target)) {
-        contextMenuInput = target as HTMLInputElement | HTMLTextAreaElement;
-      } else {
-        contextMenuInput = null;
-      }
-    });
+    const removePolicyNotice = () => {
+      noticeRoot?.unmount();
+      noticeContainer?.remove();
+      noticeRoot = null;
+      noticeContainer = null;
+    };
 
-    // Listen for context menu action from background script
-    browser.runtime.onMessage.addListener(message => {
-      if (message.action === 'rescanForPii') {
-        manualRescan();
-      }
-    });
+    const showPolicyNotice = (
+      title: string,
+      message: string,
+      types: string[]
+    ) => {
+      removePolicyNotice();
+      noticeContainer = document.createElement('div');
+      document.body.appendChild(noticeContainer);
+      noticeRoot = ReactDOM.createRoot(noticeContainer);
+      noticeRoot.render(
+        <PolicyNotice
+          title={title}
+          message={message}
+          types={types}
+          onClose={removePolicyNotice}
+        />
+      );
+    };
 
-    document.addEventListener(
-      'focusin',
-      async event => {
-        const target = event.target as HTMLElement;
+    const logBlockedDetections = async (
+      detections: DetectionResult[],
+      source: string
+    ) => {
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      detections.forEach(detection => {
+        detectionQueue.add({
+          type: detection.type,
+          domain,
+          action: 'blocked',
+          metadata: {
+            originalLength: detection.value.length,
+            severity: detection.severity ?? getSeverity(detection.type),
+            reason: domainPolicy?.blacklisted
+              ? 'Domain blacklisted by team policy'
+              : 'Blocked by policy rule',
+            source,
+          },
+          team_id: teamId,
+        });
+      });
+    };
 
-        if (!isValidInput(target)) return;
+    const isReportable = (d: DetectionResult) =>
+      (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD;
 
-        const inputName =
-          (target as HTMLInputElement).name ||
-          (target as HTMLInputElement).id ||
-          'unnamed';
+    // Stop pastes that policy blocks before they reach the page. Runs in the
+    // capture phase on window so the site's own paste handlers never see
+    // the text, and stays synchronous so preventDefault still applies.
+    window.addEventListener(
+      'paste',
+      event => {
+        if (isAnonymizing) return;
 
-        removeAllIndicators();
+        const text = event.clipboardData?.getData('text/plain');
+        if (!text) return;
 
-        activeInput = target as HTMLInputElement | HTMLTextAreaElement;
-        const expectedTypes = getExpectedInputType(activeInput);
-        const skipAi = shouldSkipAiForInput(activeInput);
+        const blocked = detectPii(text).filter(
+          d =>
+            (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD &&
+            getPolicyAction(d.type) === 'block'
+        );
+        if (blocked.length === 0) return;
 
-        const currentValue = getInputValue(activeInput);
+        event.preventDefault();
+        event.stopImmediatePropagation();
+
+        showPolicyNotice(
+          'Paste blocked',
+          domainPolicy?.blacklisted
+            ? `Your team does not allow pasting sensitive data on ${window.location.hostname}.`
+            : 'Your team policy does not allow pasting this data here.',
+          [...new Set(blocked.map(d => d.type))]
+        );
+        logBlockedDetections(blocked, 'paste');
+      },
+      true
+    );
+
+    // Review pastes that contain sensitive data before they are inserted
+    let pasteReviewRoot: Root | null = null;
+    let pasteReviewContainer: HTMLDivElement | null = null;
+
+    const removePasteReview = () => {
+      pasteReviewRoot?.unmount();
+      pasteReviewContainer?.remove();
+      pasteReviewRoot = null;
+      pasteReviewContainer = null;
+    };
+
+    // The monitored input `node` belongs to, if any, looking through shadow
+    // roots
+    const getPasteTarget = (
+      node: EventTarget | null
+    ): HTMLInputElement | HTMLTextAreaElement | HTMLElement | null => {
+      let element =
+        node instanceof Element
+          ? node
+          : node instanceof Node
+            ? node.parentElement
+            : null;
+      while (element && !isValidInput(element)) {
+        element = getComposedParent(element);
+      }
+      return element as HTMLInputElement | HTMLTextAreaElement | null;
+    };
+
+    // Replace each detection in place, working backwards so earlier offsets
+    // stay valid; overlapping matches keep the first replacement
+    const anonymizeText = async (
+      text: string,
+      detections: DetectionResult[]
+    ): Promise<string | null> => {
+      const ordered = detections
+        .filter(d => d.start !== undefined && d.end !== undefined)
+        .sort((a, b) => b.start! - a.start!);
+      const replacements = await anonymizeValues(ordered);
+      if (!replacements) return null;
+
+      let result = text;
+      let lastStart = Infinity;
+      ordered.forEach((detection, i) => {
+        const start = detection.start!;
+        const end = detection.end!;
+        if (end > lastStart) return;
+        result = result.slice(0, start) + replacements[i] + result.slice(end);
+        lastStart = start;
+      });
+      return result;
+    };
+
+    // Insert text at the caret position saved when the paste was intercepted.
+    // execCommand keeps the site's undo history and input events intact;
+    // the fallbacks cover pages where it is unavailable.
+    const insertPastedText = (
+      target: HTMLInputElement | HTMLTextAreaElement | HTMLElement,
+      text: string,
+      selection: { start: number; end: number } | Range | null
+    ) => {
+      target.focus();
+
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        const input = target as HTMLInputElement | HTMLTextAreaElement;
+        const { start, end } =
+          selection && !(selection instanceof Range)
+            ? selection
+            : { start: input.value.length, end: input.value.length };
+        try {
+          input.setSelectionRange(start, end);
+        } catch {
+          // Some input types (email, number) don't support selection
+        }
+        if (document.execCommand('insertText', false, text)) return;
+
+        try {
+          input.setRangeText(text, start, end, 'end');
+        } catch {
+          input.value =
+            input.value.slice(0, start) + text + input.value.slice(end);
+        }
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+        return;
+      }
+
+      const windowSelection = window.getSelection();
+      if (selection instanceof Range && windowSelection) {
+        windowSelection.removeAllRanges();
+        windowSelection.addRange(selection);
+      }
+      if (document.execCommand('insertText', false, text)) return;
+
+      const range =
+        windowSelection && windowSelection.rangeCount > 0
+          ? windowSelection.getRangeAt(0)
+          : null;
+      if (!range) return;
+      range.deleteContents();
+      const textNode = document.createTextNode(text);
+      range.insertNode(textNode);
+      range.setStartAfter(textNode);
+      range.collapse(true);
+      target.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    const logPasteReview = async (
+      detections: DetectionResult[],
+      userChoice: 'paste_anyway' | 'paste_anonymized' | 'cancelled'
+    ) => {
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      detections.forEach(detection => {
+        detectionQueue.add({
+          type: detection.type,
+          domain,
+          action: userChoice === 'paste_anonymized' ? 'anonymized' : 'detected',
+          metadata: {
+            confidence: Math.round((detection.confidence ?? 1) * 100),
+            originalLength: detection.value.length,
+            severity: detection.severity ?? getSeverity(detection.type),
+            source: 'paste',
+            userChoice,
+          },
+          team_id: teamId,
+        });
+      });
+    };
+
+    // Registered after the block listener, so blocked pastes never get here
+    window.addEventListener(
+      'paste',
+      event => {
+        if (isAnonymizing || pasteReviewRoot) return;
+
+        const target = getPasteTarget(getComposedTarget(event));
+        if (!target) return;
+
+        const text = event.clipboardData?.getData('text/plain');
+        if (!text || text.length > MAX_TEXT_LENGTH) return;
+
+        const detections = filterExpectedDetections(
+          detectPii(text),
+          getExpectedInputType(target)
+        ).filter(d => (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD);
+        if (detections.length === 0) return;
+
+        event.preventDefault();
+        event.stopImmediatePropagation();
+
+        // Remember where the text was going; the dialog takes focus
+        let selection: { start: number; end: number } | Range | null = null;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+          const input = target as HTMLInputElement | HTMLTextAreaElement;
+          if (input.selectionStart !== null && input.selectionEnd !== null) {
+            selection = {
+              start: input.selectionStart,
+              end: input.selectionEnd,
+            };
+          }
+        } else {
+          const windowSelection = window.getSelection();
+          if (windowSelection && windowSelection.rangeCount > 0) {
+            selection = windowSelection.getRangeAt(0).cloneRange();
+          }
+        }
+
+        const finish = async (
+          userChoice: 'paste_anyway' | 'paste_anonymized' | 'cancelled'
+        ) => {
+          removePasteReview();
+          if (userChoice === 'cancelled') {
+            target.focus();
+            logPasteReview(detections, userChoice);
+            return;
+          }
+
+          const pasted =
+            userChoice === 'paste_anonymized'
+              ? await anonymizeText(text, detections)
+              : text;
+          // Nothing is pasted if anonymizing failed
+          if (pasted === null) {
+            target.focus();
+            return;
+          }
+          insertPastedText(target, pasted, selection);
+          logPasteReview(detections, userChoice);
+        };
+
+        pasteReviewContainer = document.createElement('div');
+        document.body.appendChild(pasteReviewContainer);
+        pasteReviewRoot = ReactDOM.createRoot(pasteReviewContainer);
+        pasteReviewRoot.render(
+          <PasteReviewDialog
+            detections={detections}
+            onPasteAnyway={() => finish('paste_anyway')}
+            onPasteAnonymized={() => finish('paste_anonymized')}
+            onCancel={() => finish('cancelled')}
+          />
+        );
+      },
+      true
+    );
+
+    // Scan dropped text and files, and files picked in <input type="file">,
+    // before the site gets them. Files are held back while they are read
+    // and handed over afterwards by replaying the event.
+    let fileReviewRoot: Root | null = null;
+    let fileReviewContainer: HTMLDivElement | null = null;
+    let replayingFiles = false; // Set while handing held files to the site
+    const pendingFileInputs = new WeakSet<HTMLInputElement>();
+
+    const removeFileReview = () => {
+      fileReviewRoot?.unmount();
+      fileReviewContainer?.remove();
+      fileReviewRoot = null;
+      fileReviewContainer = null;
+    };
+
+    const logFileReview = async (
+      results: FileScanResult[],
+      source: 'file_drop' | 'file_upload',
+      userChoice: 'upload_anyway' | 'cancelled'
+    ) => {
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      results.forEach(result => {
+        result.detections.forEach(detection => {
+          detectionQueue.add({
+            type: detection.type,
+            domain,
+            action: 'detected',
+            metadata: {
+              confidence: Math.round((detection.confidence ?? 1) * 100),
+              originalLength: detection.value.length,
+              severity: detection.severity ?? getSeverity(detection.type),
+              source,
+              fileType: result.name.split('.').pop()?.toLowerCase(),
+              userChoice,
+            },
+            team_id: teamId,
+          });
+        });
+      });
+    };
+
+    // Resolves to true when the files may go to the site
+    const reviewFiles = async (
+      files: File[],
+      source: 'file_drop' | 'file_upload'
+    ): Promise<boolean> => {
+      const results = await scanFiles(files, text =>
+        detectPii(text).filter(isReportable)
+      );
+      const detections = results.flatMap(result => result.detections);
+      if (detections.length === 0) return true;
+
+      const blocked = detections.filter(
+        d => getPolicyAction(d.type) === 'block'
+      );
+      if (blocked.length > 0) {
+        showPolicyNotice(
+          'Upload blocked',
+          'Your team policy does not allow uploading this data.',
+          [...new Set(blocked.map(d => d.type))]
+        );
+        logBlockedDetections(blocked, source);
+        return false;
+      }
+
+      return new Promise(resolve => {
+        const finish = (userChoice: 'upload_anyway' | 'cancelled') => {
+          removeFileReview();
+          logFileReview(results, source, userChoice);
+          resolve(userChoice === 'upload_anyway');
+        };
+
+        removeFileReview();
+        fileReviewContainer = document.createElement('div');
+        document.body.appendChild(fileReviewContainer);
+        fileReviewRoot = ReactDOM.createRoot(fileReviewContainer);
+        fileReviewRoot.render(
+          <FileReviewDialog
+            files={results}
+            onUploadAnyway={() => finish('upload_anyway')}
+            onCancel={() => finish('cancelled')}
+          />
+        );
+      });
+    };
+
+    window.addEventListener(
+      'drop',
+      event => {
+        if (replayingFiles || !event.dataTransfer) return;
+        const transfer = event.dataTransfer;
+        const files = Array.from(transfer.files);
+
+        // Dragged text lands in the field like a paste, and the field's own
+        // scan warns about it; only policy blocks are stopped here
+        if (files.length === 0) {
+          const text = transfer.getData('text/plain');
+          if (!text) return;
+          const blocked = detectPii(text).filter(
+            d => isReportable(d) && getPolicyAction(d.type) === 'block'
+          );
+          if (blocked.length === 0) return;
+
+          event.preventDefault();
+          event.stopImmediatePropagation();
+          showPolicyNotice(
+            'Drop blocked',
+            'Your team policy does not allow dropping this data here.',
+            [...new Set(blocked.map(d => d.type))]
+          );
+          logBlockedDetections(blocked, 'drop');
+          return;
+        }
+
+        // Binary-only drops have nothing to scan
+        if (!files.some(isTextFile)) return;
+
+        // The data transfer can only be read during the event, so keep
+        // what the replay needs
+        const target = getComposedTarget(event) ?? document;
+        const data = transfer.types
+          .filter(type => type !== 'Files')
+          .map(type => [type, transfer.getData(type)] as const);
+        const init: DragEventInit = {
+          bubbles: true,
+          cancelable: true,
+          composed: true,
+          clientX: event.clientX,
+          clientY: event.clientY,
+          screenX: event.screenX,
+          screenY: event.screenY,
+        };
+
+        event.preventDefault();
+        event.stopImmediatePropagation();
+
+        reviewFiles(files, 'file_drop').then(allowed => {
+          if (!allowed) return;
+
+          const replay = new DataTransfer();
+          files.forEach(file => replay.items.add(file));
+          data.forEach(([type, value]) => replay.setData(type, value));
+          replayingFiles = true;
+          try {
+            target.dispatchEvent(
+              new DragEvent('drop', { ...init, dataTransfer: replay })
+            );
+          } finally {
+            replayingFiles = false;
+          }
+        });
+      },
+      true
+    );
+
+    // File inputs fire input, then change; both are held until the files
+    // have been reviewed. Declined files are cleared from the input.
+    const handleFileInput = (event: Event) => {
+      if (replayingFiles) return;
+      const input = getComposedTarget(event);
+      if (!(input instanceof HTMLInputElement) || input.type !== 'file') {
+        return;
+      }
+      if (pendingFileInputs.has(input)) {
+        event.stopImmediatePropagation();
+        return;
+      }
+
+      const files = Array.from(input.files ?? []);
+      if (!files.some(isTextFile)) return;
+
+      event.stopImmediatePropagation();
+      pendingFileInputs.add(input);
+      reviewFiles(files, 'file_upload').then(allowed => {
+        pendingFileInputs.delete(input);
+        if (!allowed) {
+          input.value = '';
+          return;
+        }
+
+        replayingFiles = true;
+        try {
+          input.dispatchEvent(
+            new Event('input', { bubbles: true, composed: true })
+          );
+          input.dispatchEvent(new Event('change', { bubbles: true }));
+        } finally {
+          replayingFiles = false;
+        }
+      });
+    };
+
+    window.addEventListener('input', handleFileInput, true);
+    window.addEventListener('change', handleFileInput, true);
+
+    // Rescan every monitored field before a form or chat message is sent.
+    // Scanning otherwise follows the focused input only, so a secret typed
+    // into a field the user has since left would go out unnoticed.
+    let submitReviewRoot: Root | null = null;
+    let submitReviewContainer: HTMLDivElement | null = null;
+    let allowSubmit = false; // Set while re-sending after "Send anyway"
+
+    const removeSubmitReview = () => {
+      submitReviewRoot?.unmount();
+      submitReviewContainer?.remove();
+      submitReviewRoot = null;
+      submitReviewContainer = null;
+    };
+
+    const getFieldLabel = (element: HTMLElement): string =>
+      element.getAttribute('aria-label') ||
+      (element as HTMLInputElement).placeholder ||
+      (element as HTMLInputElement).name ||
+      element.id ||
+      element.tagName.toLowerCase();
+
+    const scanFields = (root: ParentNode) => {
+      const fields: Array<{
+        element: HTMLElement;
+        label: string;
+        detections: DetectionResult[];
+      }> = [];
+
+      querySelectorAllDeep<HTMLElement>(root, EDITABLE_SELECTOR).forEach(
+        element => {
+          // Nested editables are covered by their editing host
+          if (!isValidInput(element)) return;
+          // Password fields are meant to hold secrets
+          if ((element as HTMLInputElement).type === 'password') return;
+
+          const value = getInputValue(element);
+          if (!value || value.length > MAX_TEXT_LENGTH) return;
+
+          const detections = filterExpectedDetections(
+            detectPii(value),
+            getExpectedInputType(element)
+          ).filter(d => (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD);
+          if (detections.length > 0) {
+            fields.push({ element, label: getFieldLabel(element), detections });
+          }
+        }
+      );
+
+      return fields;
+    };
+
+    const logSubmitAnyway = async (detections: DetectionResult[]) => {
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      detections.forEach(detection => {
+        detectionQueue.add({
+          type: detection.type,
+          domain,
+          action: 'detected',
+          metadata: {
+            confidence: Math.round((detection.confidence ?? 1) * 100),
+            originalLength: detection.value.length,
+            severity: detection.severity ?? getSeverity(detection.type),
+            source: 'submit',
+            userChoice: 'submit_anyway',
+          },
+          team_id: teamId,
+        });
+      });
+    };
+
+    // Holds the submit back while any field under `root` still has
+    // detections. `resubmit` replays it once the user chooses to send.
+    const reviewBeforeSubmit = (
+      event: Event,
+      root: ParentNode,
+      resubmit: () => void
+    ) => {
+      if (allowSubmit) return;
+
+      if (submitReviewRoot) {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        return;
+      }
+
+      const fields = scanFields(root);
+      if (fields.length === 0) return;
+
+      event.preventDefault();
+      event.stopImmediatePropagation();
+
+      const detections = fields.flatMap(f => f.detections);
+      const blocked = detections.filter(
+        d => getPolicyAction(d.type) === 'block'
+      );
+      if (blocked.length > 0) {
+        logBlockedDetections(blocked, 'submit');
+      }
+
+      submitReviewContainer = document.createElement('div');
+      document.body.appendChild(submitReviewContainer);
+      submitReviewRoot = ReactDOM.createRoot(submitReviewContainer);
+      submitReviewRoot.render(
+        <SubmitReviewDialog
+          fields={fields.map(({ label, detections }) => ({
+            label,
+            detections,
+          }))}
+          blocked={blocked.length > 0}
+          onSubmitAnyway={() => {
+            removeSubmitReview();
+            logSubmitAnyway(detections);
+            // Events dispatched by resubmit() run synchronously
+            allowSubmit = true;
+            try {
+              resubmit();
+            } finally {
+              allowSubmit = false;
+            }
+          }}
+          onReview={() => {
+            removeSubmitReview();
+            // Focusing the field brings up its warning badge
+            fields[0].element.focus();
+          }}
+        />
+      );
+    };
+
+    document.addEventListener(
+      'submit',
+      event => {
+        const form = event.target as HTMLFormElement;
+        const submitter = (event as SubmitEvent).submitter;
+        reviewBeforeSubmit(event, form, () => {
+          if (typeof form.requestSubmit === 'function') {
+            form.requestSubmit(submitter ?? undefined);
+          } else {
+            form.submit();
+          }
+        });
+      },
+      true
+    );
+
+    // Chat sites usually post messages with fetch from a send button rather
+    // than submitting a form. Only the composer around the button is
+    // checked, not every field on the page.
+    document.addEventListener(
+      'click',
+      event => {
+        const target = getComposedTarget(event);
+        if (!(target instanceof Element)) return;
+        const button = target.closest<HTMLElement>(SEND_BUTTON_SELECTOR);
+        if (!button) return;
+
+        const composer =
+          button.closest('form') ??
+          closestContaining(button, EDITABLE_SELECTOR);
+        if (!composer) return;
+        reviewBeforeSubmit(event, composer, () => button.click());
+      },
+      true
+    );
+
+    // Most people send with Enter rather than the button. Shift+Enter is a
+    // new line, and Enter while an IME is composing picks a candidate.
+    document.addEventListener(
+      'keydown',
+      event => {
+        if (event.key !== 'Enter' || event.shiftKey || event.isComposing) {
+          return;
+        }
+        const field = getPasteTarget(getComposedTarget(event));
+        if (!field) return;
+
+        const composer = closestContaining(field, SEND_BUTTON_SELECTOR);
+        if (!composer) return;
+        const [button] = querySelectorAllDeep<HTMLElement>(
+          composer,
+          SEND_BUTTON_SELECTOR
+        );
+        if (!button) return;
+        reviewBeforeSubmit(event, composer, () => button.click());
+      },
+      true
+    );
+
+    // Put the original values back into selected text that contains
+    // pseudonymization tokens, e.g. an LLM's answer. Editable selections are
+    // replaced in place; anything else is copied to the clipboard.
+    const copyToClipboard = async (text: string) => {
+      try {
+        await navigator.clipboard.writeText(text);
+      } catch {
+        const textarea = document.createElement('textarea');
+        textarea.value = text;
+        textarea.style.position = 'fixed';
+        textarea.style.opacity = '0';
+        document.body.appendChild(textarea);
+        textarea.select();
+        document.execCommand('copy');
+        textarea.remove();
+      }
+    };
+
+    const restoreSelection = async () => {
+      const focused = getDeepActiveElement();
+      const editable = focused ? getPasteTarget(focused) : null;
+
+      let text = '';
+      let selection: { start: number; end: number } | Range | null = null;
+      if (
+        editable &&
+        (editable.tagName === 'INPUT' || editable.tagName === 'TEXTAREA')
+      ) {
+        const input = editable as HTMLInputElement | HTMLTextAreaElement;
+        const start = input.selectionStart ?? 0;
+        const end = input.selectionEnd ?? 0;
+        text = input.value.slice(start, end);
+        selection = { start, end };
+      } else {
+        const windowSelection = window.getSelection();
+        text = windowSelection?.toString() ?? '';
+        if (windowSelection && windowSelection.rangeCount > 0) {
+          selection = windowSelection.getRangeAt(0).cloneRange();
+        }
+      }
+      if (!text) return;
+
+      let response: { text?: string; restored?: number; error?: string };
+      try {
+        response = await browser.runtime.sendMessage({
+          action: 'restoreTokens',
+          text,
+        });
+      } catch (error) {
+        console.error('Failed to restore tokens:', error);
+        return;
+      }
+      if (!response?.text || !response.restored) {
+        showPolicyNotice(
+          'Nothing to restore',
+          'The selection has no tokens pseudonymized in this tab.',
+          []
+        );
+        return;
+      }
+
+      if (editable) {
+        insertPastedText(editable, response.text, selection);
+      } else {
+        await copyToClipboard(response.text);
+        showPolicyNotice(
+          'Values restored',
+          `Restored ${response.restored} value${response.restored !== 1 ? 's' : ''} and copied the text to the clipboard.`,
+          []
+        );
+      }
+    };
+
+    // Watch what is copied or cut out of the page, e.g. from internal
+    // tools. Per-type policy decides: block stops the copy, anonymize puts
+    // an anonymized version on the clipboard, warn lets it through with a
+    // notice.
+    let writingClipboard = false; // copyToClipboard's fallback fires copy
+
+    const logCopyDetections = async (
+      detections: DetectionResult[],
+      action: 'detected' | 'anonymized',
+      source: 'copy' | 'cut'
+    ) => {
+      const domain = window.location.hostname;
+      const teamId = await getCurrentTeamId();
+      detections.forEach(detection => {
+        detectionQueue.add({
+          type: detection.type,
+          domain,
+          action,
+          metadata: {
+            confidence: Math.round((detection.confidence ?? 1) * 100),
+            originalLength: detection.value.length,
+            severity: detection.severity ?? getSeverity(detection.type),
+            source,
+            ...(action === 'anonymized'
+              ? { strategy: getStrategy(detection.type) ?? 'redact' }
+              : {}),
+          },
+          team_id: teamId,
+        });
+      });
+    };
+
+    // Removes the selection a cut would have taken, once the cut itself
+    // has been cancelled
+    const deleteSelection = (
+      field: HTMLInputElement | HTMLTextAreaElement | null
+    ) => {
+      if (field) {
+        const start = field.selectionStart ?? 0;
+        const end = field.selectionEnd ?? 0;
+        if (field.readOnly || start === end) return;
+        field.setRangeText('', start, end, 'end');
+        field.dispatchEvent(
+          new InputEvent('input', {
+            bubbles: true,
+            inputType: 'deleteByCut',
+          })
+        );
+      } else {
+        document.execCommand('delete');
+      }
+    };
+
+    const handleCopyOut = (event: ClipboardEvent) => {
+      if (writingClipboard || isAnonymizing) return;
+      const source = event.type === 'cut' ? 'cut' : 'copy';
+
+      const target = getPasteTarget(getComposedTarget(event));
+      const field =
+        target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')
+          ? (target as HTMLInputElement | HTMLTextAreaElement)
+          : null;
+      const text = field
+        ? field.value.slice(field.selectionStart ?? 0, field.selectionEnd ?? 0)
+        : (window.getSelection()?.toString() ?? '');
+      if (!text || text.length > MAX_TEXT_LENGTH) return;
+
+      const detections = detectPii(text)
+        .filter(isReportable)
+        .filter(d => getCopyAction(d.type) !== null);
+      if (detections.length === 0) return;
+
+      const blocked = detections.filter(d => getCopyAction(d.type) === 'block');
+      if (blocked.length > 0) {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        showPolicyNotice(
+          source === 'cut' ? 'Cut blocked' : 'Copy blocked',
+          'Your team policy does not allow copying this data.',
+          [...new Set(blocked.map(d => d.type))]
+        );
+        logBlockedDetections(blocked, source);
+        return;
+      }
+
+      const toAnonymize = detections.filter(
+        d => getCopyAction(d.type) === 'anonymize'
+      );
+      const warned = detections.filter(d => !toAnonymize.includes(d));
+      if (warned.length > 0) logCopyDetections(warned, 'detected', source);
+
+      if (toAnonymize.length === 0) {
+        showPolicyNotice(
+          'Sensitive data copied',
+          'The text you copied contains data that may be sensitive.',
+          [...new Set(warned.map(d => d.type))]
+        );
+        return;
+      }
+
+      // Tokenized values need the background's vault, so the clipboard is
+      // written once the replacements are ready
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (source === 'cut') deleteSelection(field);
+
+      anonymizeText(text, toAnonymize).then(async anonymized => {
+        if (anonymized === null) return;
+        writingClipboard = true;
+        try {
+          await copyToClipboard(anonymized);
+        } finally {
+          writingClipboard = false;
+        }
+        showPolicyNotice(
+          'Copied anonymized',
+          'Your team policy anonymizes this data when it is copied.',
+          [...new Set(toAnonymize.map(d => d.type))]
+        );
+        logCopyDetections(toAnonymize, 'anonymized', source);
+      });
+    };
+
+    window.addEventListener('copy', handleCopyOut, true);
+    window.addEventListener('cut', handleCopyOut, true);
+
+    // Scan the visible page, or the selection, highlight the matches in
+    // place and list them in a side panel
+    type ScanHit = {
+      detection: DetectionResult;
+      // Null for text selected inside an input, which has no DOM range
+      range: Range | null;
+      reveal: () => void;
+    };
+    let pageScanRoot: Root | null = null;
+    let pageScanContainer: HTMLDivElement | null = null;
+    let highlightLayer: HTMLDivElement | null = null;
+    let scanHits: ScanHit[] = [];
+    let selectedHit: number | null = null;
+
+    const drawHighlights = () => {
+      highlightLayer?.remove();
+      highlightLayer = createOverlayLayer(2147483646);
+
+      scanHits.forEach((hit, index) => {
+        if (!hit.range) return;
+        const selected = index === selectedHit;
+        appendRangeBoxes(highlightLayer!, hit.range, {
+          backgroundColor: selected
+            ? 'rgba(255, 152, 0, 0.45)'
+            : 'rgba(255, 193, 7, 0.35)',
+          outline: selected ? '2px solid #ff9800' : 'none',
+          borderRadius: '2px',
+        });
+      });
+
+      document.documentElement.appendChild(highlightLayer);
+    };
+
+    const removePageScan = () => {
+      window.removeEventListener('resize', drawHighlights);
+      pageScanRoot?.unmount();
+      pageScanContainer?.remove();
+      highlightLayer?.remove();
+      pageScanRoot = null;
+      pageScanContainer = null;
+      highlightLayer = null;
+      scanHits = [];
+      selectedHit = null;
+    };
+
+    const renderPageScan = (
+      scope: 'page' | 'selection',
+      truncated: boolean
+    ) => {
+      drawHighlights();
+      pageScanRoot?.render(
+        <PageScanPanel
+          scope={scope}
+          detections={scanHits.map(hit => hit.detection)}
+          selectedIndex={selectedHit}
+          truncated={truncated}
+          onSelect={index => {
+            selectedHit = index;
+            scanHits[index].reveal();
+            renderPageScan(scope, truncated);
+          }}
+          onClose={removePageScan}
+        />
+      );
+    };
+
+    // Text selected inside an input or textarea isn't part of the DOM
+    // selection
+    const scanFieldSelection = (
+      input: HTMLInputElement | HTMLTextAreaElement
+    ): ScanHit[] => {
+      const start = input.selectionStart ?? 0;
+      const end = input.selectionEnd ?? 0;
+      const text = input.value.slice(start, end);
+
+      return detectPii(text)
+        .filter(isReportable)
+        .map(detection => {
+          const offset =
+            start + (detection.start ?? text.indexOf(detection.value));
+          return {
+            detection,
+            range: null,
+            reveal: () => {
+              input.focus();
+              input.setSelectionRange(offset, offset + detection.value.length);
+            },
+          };
+        });
+    };
+
+    const scanPage = (scope: 'page' | 'selection') => {
+      let hits: ScanHit[] = [];
+      let truncated = false;
+
+      const focused = getDeepActiveElement();
+      const field = focused ? getPasteTarget(focused) : null;
+      if (
+        scope === 'selection' &&
+        field &&
+        (field.tagName === 'INPUT' || field.tagName === 'TEXTAREA')
+      ) {
+        hits = scanFieldSelection(
+          field as HTMLInputElement | HTMLTextAreaElement
+        );
+      } else {
+        let within: Range | undefined;
+        if (scope === 'selection') {
+          const selection = window.getSelection();
+          if (
+            !selection ||
+            selection.rangeCount === 0 ||
+            selection.isCollapsed
+          ) {
+            return;
+          }
+          within = selection.getRangeAt(0);
+        }
+
+        // The warning badge repeats detected values; keep it out of the scan
+        removeAllIndicators();
+        const result = scanVisibleText(
+          within ? within.commonAncestorContainer : document.body,
+          text => detectPii(text).filter(isReportable),
+          within
+        );
+        truncated = result.truncated;
+        hits = result.matches.map(({ detection, range }) => ({
+          detection,
+          range,
+          reveal: () =>
+            range.startContainer.parentElement?.scrollIntoView({
+              block: 'center',
+            }),
+        }));
+      }
+
+      removePageScan();
+      scanHits = hits;
+      pageScanContainer = document.createElement('div');
+      pageScanContainer.setAttribute(PAGE_SCAN_IGNORE_ATTRIBUTE, '');
+      document.body.appendChild(pageScanContainer);
+      pageScanRoot = ReactDOM.createRoot(pageScanContainer);
+      window.addEventListener('resize', drawHighlights);
+      renderPageScan(scope, truncated);
+    };
+
+    // Presentation mode: blur detected values on the rendered page while
+    // the user shares their screen, and keep the masks current as the page
+    // changes
+    let maskLayer: HTMLDivElement | null = null;
+    let maskObserver: MutationObserver | null = null;
+    let maskedRanges: Range[] = [];
+    let maskTimer: ReturnType<typeof setTimeout> | null = null;
+    let maskFrame: number | null = null;
+
+    const maskStyle = (): Partial<CSSStyleDeclaration> =>
+      CSS.supports('backdrop-filter', 'blur(1px)')
+        ? {
+            backdropFilter: 'blur(6px)',
+            backgroundColor: 'rgba(224, 224, 224, 0.5)',
+            borderRadius: '3px',
+          }
+        : { backgroundColor: '#9e9e9e', borderRadius: '3px' };
+
+    const drawMasks = () => {
+      maskFrame = null;
+      maskLayer?.remove();
+      maskLayer = createOverlayLayer(2147483645);
+      const style = maskStyle();
+      maskedRanges.forEach(range => appendRangeBoxes(maskLayer!, range, style));
+      document.documentElement.appendChild(maskLayer);
+    };
+
+    const updateMasks = () => {
+      maskTimer = null;
+      maskedRanges = scanVisibleText(document.body, text =>
+        detectPii(text).filter(isReportable)
+      ).matches.map(match => match.range);
+      drawMasks();
+    };
+
+    // Throttled rather than debounced: a page that keeps changing, like a
+    // streaming chat answer, must still get masked
+    const scheduleMaskUpdate = () => {
+      if (maskTimer === null) {
+        maskTimer = setTimeout(updateMasks, MASK_REFRESH_MS);
+      }
+    };
+
+    // Values inside scrolled containers move without the page changing
+    const scheduleMaskRedraw = () => {
+      if (maskFrame === null) {
+        maskFrame = requestAnimationFrame(drawMasks);
+      }
+    };
+
+    const startPresentationMode = () => {
+      if (maskObserver) return;
+      maskObserver = new MutationObserver(scheduleMaskUpdate);
+      maskObserver.observe(document.body, {
+        childList: true,
+        subtree: true,
+        characterData: true,
+        attributes: true,
+        attributeFilter: ['class', 'style', 'hidden'],
+      });
+      document.addEventListener('scroll', scheduleMaskRedraw, {
+        capture: true,
+        passive: true,
+      });
+      window.addEventListener('resize', scheduleMaskRedraw);
+      updateMasks();
+    };
+
+    const stopPresentationMode = () => {
+      maskObserver?.disconnect();
+      maskObserver = null;
+      document.removeEventListener('scroll', scheduleMaskRedraw, {
+        capture: true,
+      });
+      window.removeEventListener('resize', scheduleMaskRedraw);
+      if (maskTimer !== null) clearTimeout(maskTimer);
+      if (maskFrame !== null) cancelAnimationFrame(maskFrame);
+      maskTimer = null;
+      maskFrame = null;
+      maskLayer?.remove();
+      maskLayer = null;
+      maskedRanges = [];
+    };
+
+    storage
+      .getItem<boolean>('local:presentationMode')
+      .then((on: boolean | null) => {
+        if (on) startPresentationMode();
+      });
+
+    // Context menu setup
+    document.addEventListener('contextmenu', event => {
+      contextMenuInput = getPasteTarget(getComposedTarget(event)) as
+        | HTMLInputElement
+        | HTMLTextAreaElement
+        | null;
+    });
+
+    // Listen for context menu action from background script
+    browser.runtime.onMessage.addListener(message => {
+      if (message.action === 'rescanForPii') {
+        manualRescan();
+      }
+      if (message.action === 'restoreSelection') {
+        restoreSelection();
+      }
+      if (message.action === 'scanPage') {
+        scanPage('page');
+      }
+      if (message.action === 'scanSelection') {
+        scanPage('selection');
+      }
+      if (message.action === 'configUpdated' && message.config) {
+        applySyncedConfig(message.config);
+      }
+    });
+
+    document.addEventListener(
+      'focusin',
+      async event => {
+        // Inputs inside open shadow roots arrive retargeted to their host
+        const target = getComposedTarget(event);
+
+        if (!(target instanceof HTMLElement) || !isValidInput(target)) return;
+        // Replacing text in a rich editor focuses it again; keep the popup
+        if (isAnonymizing && target === activeInput) return;
+
+        const inputName =
+          (target as HTMLInputElement).name ||
+          (target as HTMLInputElement).id ||
+          'unnamed';
+
+        removeAllIndicators();
+
+        activeInput = target as HTMLInputElement | HTMLTextAreaElement;
+        const expectedTypes = getExpectedInputType(activeInput);
+        const skipAi = shouldSkipAiForInput(activeInput);
+
+        const currentValue = getInputValue(activeInput);
         const results = detectPii(currentValue);
         const filteredResults = filterExpectedDetections(
           results,
@@ -1713,7 +3103,7 @@ export default defineContentScript({
         }
 
         setTimeout(() => {
-          const currentFocus = document.activeElement;
+          const currentFocus = getDeepActiveElement();
 
           if (isPopupOpen || keepPopupOpenAfterAnonymize) {
             return;
@@ -1750,90 +3140,31 @@ export default defineContentScript({
             <SimpleWarningBadge
               detections={filteredResults}
               onAnonymize={handleAnonymize}
+              onPseudonymize={handlePseudonymize}
               onPopupStateChange={isOpen => {
                 isPopupOpen = isOpen;
               }}
               variant="full"
               autoAiEnabled={autoAiScan}
+              aiDisabled={whitelistExemption.ai}
             />
           );
         }
       }
     });
 
-    // Flush detection queue before unload
+    // Queued detections live in the background, nothing to flush here
     ctx.onInvalidated(() => {
       removeAllIndicators();
       aiScanOptimizer.clearCache();
-      detectionQueue.flush();
     });
 
-    async function initializeCustomPatterns() {
-      try {
-        const token = await storage.getItem<string>('local:authToken');
-
-        if (!token) {
-          return;
-        }
-
-        const apiClient = initializeApiClient(token);
-
-        try {
-          // Fetch user's personal patterns
-          const personalPatterns = await apiClient.getPatterns();
-
-          // Fetch patterns from all teams the user is part of
-          const teams = await apiClient.getTeams();
-          const teamPoliciesPromises = teams.map(team =>
-            apiClient.getTeamPolicies(team.id)
-          );
-          const teamPoliciesArrays = await Promise.all(teamPoliciesPromises);
-
-          // Extract patterns from all team policies
-          const allTeamPatterns: any[] = [];
-          teamPoliciesArrays.flat().forEach(policy => {
-            if (policy.enabled && policy.policy_data) {
-              const policyData =
-                typeof policy.policy_data === 'string'
-                  ? JSON.parse(policy.policy_data)
-                  : policy.policy_data;
-
-              if (policyData.patterns && Array.isArray(policyData.patterns)) {
-                policyData.patterns.forEach((pattern: any) => {
-                  // Convert team policy pattern format to CustomPattern format
-                  allTeamPatterns.push({
-                    id: pattern.id,
-                    name: pattern.name,
-                    pattern: pattern.pattern,
-                    pattern_type: pattern.pattern_type,
-                    description: pattern.description || '',
-                    is_active: true,
-                    user_id: '', // Team patterns don't have a specific user
-                    created_at: policy.created_at,
-                    updated_at: policy.updated_at,
-                  });
-                });
-              }
-            }
-          });
-
-          // Merge personal and team patterns
-          const allPatterns = [...personalPatterns, ...allTeamPatterns];
-
-          // Remove duplicates based on pattern ID (prefer personal patterns)
-          const uniquePatterns = Array.from(
-            new Map(allPatterns.map(p => [p.id, p])).values()
-          );
-
-          if (uniquePatterns && uniquePatterns.length > 0) {
-            setCustomPatterns(uniquePatterns);
-          }
-        } catch (apiError) {
-          console.error('Failed to fetch patterns from API:', apiError);
-        }
-      } catch (error) {
-        console.error('Failed to load custom patterns:', error);
-      }
+    // Pushed by the background when the synced config changes. The
+    // whitelist only takes effect on the next page load.
+    async function applySyncedConfig(config: SyncedConfig) {
+      syncedConfig = config;
+      applyCustomPatterns();
+      await initializeWithTeamPolicies();
     }
 
     browser.storage.onChanged.addListener(async (changes, area) => {
@@ -1842,10 +3173,6 @@ export default defineContentScript({
           const newToken = changes.authToken.newValue;
           if (newToken) {
             authToken = newToken;
-            initializeApiClient(newToken);
-            initializeCustomPatterns();
-            // Re-initialize team policies when auth changes
-            initializeWithTeamPolicies();
           }
         }
         if (changes.currentTeamId) {
@@ -1854,6 +3181,23 @@ export default defineContentScript({
         }
         if (changes.autoAiScan) {
         }
+        if (changes.locales || changes.complianceTemplate) {
+          applyDetectionSettings();
+        }
+        if (changes.anonymizationStrategies) {
+          loadAnonymizationSettings();
+        }
+        if (changes.localPatterns) {
+          localPatterns = changes.localPatterns.newValue ?? [];
+          applyCustomPatterns();
+        }
+        if (changes.presentationMode) {
+          if (changes.presentationMode.newValue) {
+            startPresentationMode();
+          } else {
+            stopPresentationMode();
+          }
+        }
       }
     });
 
@@ -0,0 +1,208 @@
+// Runs in the page's world, where Monaco and CodeMirror editor objects are
+// visible, and answers the content script's read/replace requests for them.
+// See shared/code-editors.ts for the protocol.
+import {
+  CODE_EDITOR_SELECTOR,
+  EDITOR_REQUEST_EVENT,
+  EDITOR_RESPONSE_EVENT,
+  findChanges,
+  type EditorChange,
+  type EditorRequest,
+  type EditorResponse,
+} from '@/shared/code-editors';
+
+type EditorModel = {
+  read: () => string;
+  // `changes` are sorted and don't overlap
+  apply: (changes: EditorChange[]) => void;
+};
+
+// The parts of each editor's API the bridge uses. Page objects are checked
+// against these before use, since any script can define the same globals.
+type MonacoTextModel = {
+  getValue(): string;
+  getPositionAt(offset: number): { lineNumber: number; column: number };
+};
+
+type MonacoEditor = {
+  getDomNode(): HTMLElement | null;
+  getModel(): unknown;
+  pushUndoStop(): void;
+  executeEdits(
+    source: string,
+    edits: Array<{
+      range: {
+        startLineNumber: number;
+        startColumn: number;
+        endLineNumber: number;
+        endColumn: number;
+      };
+      text: string;
+    }>
+  ): void;
+};
+
+type CodeMirror6View = {
+  state: { doc: { toString(): string } };
+  dispatch(spec: { changes: EditorChange[]; userEvent: string }): void;
+};
+
+type CodeMirror5Editor = {
+  getValue(): string;
+  operation(fn: () => void): void;
+  posFromIndex(index: number): unknown;
+  replaceRange(text: string, from: unknown, to: unknown): void;
+};
+
+type PageWindow = Window & {
+  monaco?: { editor?: { getEditors?: () => unknown[] } };
+  __pasteproofEditorBridge?: boolean;
+};
+
+const pageWindow = window as PageWindow;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const hasMethods = (
+  value: unknown,
+  names: string[]
+): value is Record<string, (...args: unknown[]) => unknown> =>
+  isObject(value) && names.every(name => typeof value[name] === 'function');
+
+const isMonacoEditor = (value: unknown): value is MonacoEditor =>
+  hasMethods(value, ['getDomNode', 'getModel', 'pushUndoStop', 'executeEdits']);
+
+const isMonacoTextModel = (value: unknown): value is MonacoTextModel =>
+  hasMethods(value, ['getValue', 'getPositionAt']);
+
+const isCodeMirror6View = (value: unknown): value is CodeMirror6View =>
+  isObject(value) &&
+  typeof value.dispatch === 'function' &&
+  isObject(value.state) &&
+  isObject(value.state.doc);
+
+const isCodeMirror5Editor = (value: unknown): value is CodeMirror5Editor =>
+  hasMethods(value, ['getValue', 'operation', 'posFromIndex', 'replaceRange']);
+
+const monacoModel = (root: HTMLElement): EditorModel | null => {
+  const editor = pageWindow.monaco?.editor
+    ?.getEditors?.()
+    ?.filter(isMonacoEditor)
+    .find(e => root.contains(e.getDomNode()));
+  const model = editor?.getModel();
+  if (!editor || !isMonacoTextModel(model)) return null;
+
+  return {
+    read: () => model.getValue(),
+    apply: changes => {
+      const edits = changes.map(({ from, to, insert }) => {
+        const start = model.getPositionAt(from);
+        const end = model.getPositionAt(to);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          text: insert,
+        };
+      });
+      editor.pushUndoStop();
+      editor.executeEdits('pasteproof', edits);
+      editor.pushUndoStop();
+    },
+  };
+};
+
+// CodeMirror 6 keeps its view on the content element (what
+// EditorView.findFromDOM reads)
+const codeMirror6Model = (root: HTMLElement): EditorModel | null => {
+  const cmView = root.querySelector<HTMLElement & { cmView?: unknown }>(
+    '.cm-content'
+  )?.cmView;
+  if (!isObject(cmView)) return null;
+  const view =
+    (isObject(cmView.rootView) ? cmView.rootView.view : undefined) ??
+    cmView.view;
+  if (!isCodeMirror6View(view)) return null;
+
+  return {
+    read: () => view.state.doc.toString(),
+    apply: changes => {
+      view.dispatch({ changes, userEvent: 'input.replace' });
+    },
+  };
+};
+
+// CodeMirror 5 puts the editor instance on its wrapper element
+const codeMirror5Model = (root: HTMLElement): EditorModel | null => {
+  const cm = (root as HTMLElement & { CodeMirror?: unknown }).CodeMirror;
+  if (!isCodeMirror5Editor(cm)) return null;
+
+  return {
+    read: () => cm.getValue(),
+    apply: changes => {
+      cm.operation(() => {
+        // Back to front so earlier offsets stay valid
+        [...changes].reverse().forEach(({ from, to, insert }) => {
+          cm.replaceRange(insert, cm.posFromIndex(from), cm.posFromIndex(to));
+        });
+      });
+    },
+  };
+};
+
+const ADAPTERS = [monacoModel, codeMirror6Model, codeMirror5Model];
+
+const handleRequest = (
+  root: HTMLElement,
+  request: EditorRequest
+): EditorResponse => {
+  for (const adapter of ADAPTERS) {
+    const model = adapter(root);
+    if (!model) continue;
+
+    if (request.op === 'read') return { ok: true, value: model.read() };
+
+    const changes = findChanges(model.read(), request.replacements);
+    if (changes.length > 0) model.apply(changes);
+    return { ok: true, count: changes.length };
+  }
+  return { ok: false };
+};
+
+export default defineUnlistedScript(() => {
+  // Injected once per frame, but guard against a second injection
+  if (pageWindow.__pasteproofEditorBridge) return;
+  pageWindow.__pasteproofEditorBridge = true;
+
+  document.addEventListener(
+    EDITOR_REQUEST_EVENT,
+    event => {
+      const target = event.composedPath()[0];
+      if (!(target instanceof HTMLElement)) return;
+      const root = target.closest<HTMLElement>(CODE_EDITOR_SELECTOR);
+      if (!root) return;
+
+      let response: EditorResponse;
+      try {
+        response = handleRequest(
+          root,
+          JSON.parse((event as CustomEvent<string>).detail)
+        );
+      } catch (error) {
+        console.warn('PasteProof: editor bridge request failed', error);
+        response = { ok: false };
+      }
+
+      target.dispatchEvent(
+        new CustomEvent(EDITOR_RESPONSE_EVENT, {
+          detail: JSON.stringify(response),
+        })
+      );
+    },
+    true
+  );
+});
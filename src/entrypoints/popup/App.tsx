@@ -16,6 +16,35 @@ import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
 import SmartToyIcon from '@mui/icons-material/SmartToy';
 import SecurityIcon from '@mui/icons-material/Security';
+import PublicIcon from '@mui/icons-material/Public';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
+import ScreenShareIcon from '@mui/icons-material/ScreenShare';
+import {
+  DEFAULT_LOCALES,
+  LOCALE_LABELS,
+  LOCALES,
+  type Locale,
+} from '@/shared/locale-packs';
+import { COMPLIANCE_TEMPLATES } from '@/shared/compliance-templates';
+import { SYNCED_CONFIG_KEY, type SyncedConfig } from '@/shared/config-sync';
+import {
+  LOCAL_WHITELIST_KEY,
+  type LocalWhitelistEntry,
+} from '@/shared/local-config';
+import {
+  getWhitelistExemption,
+  matchesWhitelistPattern,
+} from '@/shared/whitelist';
+import { LocalRules } from './LocalRules';
+import {
+  ANONYMIZATION_STRATEGIES,
+  DEFAULT_STRATEGIES,
+  normalizeStrategies,
+  STRATEGY_LABELS,
+  type AnonymizationStrategy,
+} from '@/shared/anonymization';
+import { FAKE_TYPES } from '@/shared/synthetic-values';
+import { PiiType } from '@/shared/pii-detector';
 
 type User = {
   id: string;
@@ -27,9 +56,14 @@ type PopupState = {
   isAuthenticated: boolean;
   enabled: boolean;
   autoAiScan: boolean;
+  presentationMode: boolean;
   currentDomain: string;
+  currentPath: string;
   isWhitelisted: boolean;
   hasApiKey: boolean;
+  locales: Locale[];
+  complianceTemplate: string | null;
+  anonymizationStrategies: Partial<Record<string, AnonymizationStrategy>>;
   user?: User;
 };
 
@@ -38,9 +72,14 @@ export default function PopupApp() {
     isAuthenticated: false,
     enabled: true,
     autoAiScan: false,
+    presentationMode: false,
     currentDomain: '',
+    currentPath: '/',
     isWhitelisted: false,
     hasApiKey: false,
+    locales: DEFAULT_LOCALES,
+    complianceTemplate: null,
+    anonymizationStrategies: {},
   });
   const [loading, setLoading] = useState(true);
   const [currentTeamId, setCurrentTeamId] = useState<string | null>(null);
@@ -105,8 +144,18 @@ export default function PopupApp() {
       const enabled = (await storage.getItem<boolean>('local:enabled')) ?? true;
       const storedAutoAiScan =
         (await storage.getItem<boolean>('local:autoAiScan')) ?? null;
+      const presentationMode =
+        (await storage.getItem<boolean>('local:presentationMode')) ?? false;
       const authToken = await storage.getItem<string>('local:authToken');
       const user = await storage.getItem<any>('local:user');
+      const locales =
+        (await storage.getItem<Locale[]>('local:locales')) ?? DEFAULT_LOCALES;
+      const complianceTemplate = await storage.getItem<string>(
+        'local:complianceTemplate'
+      );
+      const anonymizationStrategies = normalizeStrategies(
+        await storage.getItem('local:anonymizationStrategies')
+      );
 
       let isAuthenticated = !!(authToken && user);
       const isPremiumUser =
@@ -155,33 +204,32 @@ export default function PopupApp() {
         }
       }
 
-      let isWhitelisted = false;
-      if (isAuthenticated) {
-        try {
-          const baseUrl = getApiBaseUrl();
-          const response = await fetch(`${baseUrl}/v1/whitelist/check`, {
-            method: 'POST',
-            headers: {
-              'X-API-Key': authToken,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ domain }),
-          });
-          const data = await response.json();
-          isWhitelisted = data.whitelisted;
-        } catch (error) {
-          console.error('Failed to check whitelist:', error);
-        }
-      }
+      // Matched against the synced copy and this device's entries, like the
+      // content script does
+      const syncedConfig =
+        await storage.getItem<SyncedConfig>(SYNCED_CONFIG_KEY);
+      const localWhitelist =
+        (await storage.getItem<LocalWhitelistEntry[]>(LOCAL_WHITELIST_KEY)) ??
+        [];
+      const isWhitelisted = getWhitelistExemption(
+        [...(syncedConfig?.whitelist ?? []), ...localWhitelist],
+        domain,
+        url.pathname
+      ).all;
 
       setState({
         isAuthenticated,
         user: user || null,
         enabled,
         autoAiScan,
+        presentationMode,
         currentDomain: domain,
+        currentPath: url.pathname,
         isWhitelisted,
         hasApiKey: isAuthenticated,
+        locales,
+        complianceTemplate,
+        anonymizationStrategies,
       });
 
       // Reload teams if authenticated
@@ -260,6 +308,13 @@ export default function PopupApp() {
     await refreshCurrentTab();
   };
 
+  // Applied by open tabs as soon as it changes, no reload needed
+  const togglePresentationMode = async () => {
+    const newPresentationMode = !state.presentationMode;
+    await storage.setItem('local:presentationMode', newPresentationMode);
+    setState({ ...state, presentationMode: newPresentationMode });
+  };
+
   const toggleAutoAiScan = async () => {
     const newAutoAiScan = !state.autoAiScan;
     await storage.setItem('local:autoAiScan', newAutoAiScan);
@@ -269,6 +324,41 @@ export default function PopupApp() {
     await refreshCurrentTab();
   };
 
+  const toggleLocale = async (locale: Locale) => {
+    const newLocales = state.locales.includes(locale)
+      ? state.locales.filter(l => l !== locale)
+      : [...state.locales, locale];
+    // Content scripts pick this up from storage, no refresh needed
+    await storage.setItem('local:locales', newLocales);
+    setState({ ...state, locales: newLocales });
+  };
+
+  const handleComplianceTemplateChange = async (templateId: string | null) => {
+    // A team policy's template still takes precedence in content scripts
+    if (templateId) {
+      await storage.setItem('local:complianceTemplate', templateId);
+    } else {
+      await storage.removeItem('local:complianceTemplate');
+    }
+    setState({ ...state, complianceTemplate: templateId });
+  };
+
+  const handleStrategyChange = async (
+    type: string,
+    strategy: AnonymizationStrategy | null
+  ) => {
+    const newStrategies = { ...state.anonymizationStrategies };
+    if (strategy) {
+      newStrategies[type] = strategy;
+    } else {
+      delete newStrategies[type];
+    }
+    // Content scripts pick this up from storage; a team policy's table
+    // still wins there
+    await storage.setItem('local:anonymizationStrategies', newStrategies);
+    setState({ ...state, anonymizationStrategies: newStrategies });
+  };
+
   const toggleWhitelist = async () => {
     if (!state.isAuthenticated) {
       alert('Please sign in first');
@@ -286,11 +376,18 @@ export default function PopupApp() {
           },
         });
         const data = await response.json();
-        const entry = data.whitelist.find(
-          (w: any) => w.domain === state.currentDomain
+        // Every entry that turns the extension off here, wildcards included
+        const entries = data.whitelist.filter(
+          (w: any) =>
+            (w.scope ?? 'all') === 'all' &&
+            matchesWhitelistPattern(
+              w.domain,
+              state.currentDomain,
+              state.currentPath
+            )
         );
 
-        if (entry) {
+        for (const entry of entries) {
           await fetch(`${baseUrl}/v1/whitelist/${entry.id}`, {
             method: 'DELETE',
             headers: {
@@ -298,6 +395,22 @@ export default function PopupApp() {
             },
           });
         }
+
+        const localWhitelist =
+          (await storage.getItem<LocalWhitelistEntry[]>(LOCAL_WHITELIST_KEY)) ??
+          [];
+        await storage.setItem(
+          LOCAL_WHITELIST_KEY,
+          localWhitelist.filter(
+            (entry: LocalWhitelistEntry) =>
+              entry.scope !== 'all' ||
+              !matchesWhitelistPattern(
+                entry.domain,
+                state.currentDomain,
+                state.currentPath
+              )
+          )
+        );
       } else {
         await fetch(`${baseUrl}/v1/whitelist`, {
           method: 'POST',
@@ -311,6 +424,9 @@ export default function PopupApp() {
 
       setState({ ...state, isWhitelisted: !state.isWhitelisted });
 
+      // The reloaded page reads the synced copy, so refresh it first
+      await browser.runtime.sendMessage({ action: 'syncConfig' });
+
       // Refresh the page after toggling whitelist
       await refreshCurrentTab();
     } catch (error) {
@@ -323,6 +439,26 @@ export default function PopupApp() {
     browser.tabs.create({ url: `${import.meta.env.VITE_WEB_URL}/dashboard` });
   };
 
+  // The top frame scans and shows the results panel on the page
+  const scanPage = async () => {
+    try {
+      const [tab] = await browser.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      if (!tab.id) return;
+      await browser.tabs.sendMessage(
+        tab.id,
+        { action: 'scanPage' },
+        { frameId: 0 }
+      );
+      window.close();
+    } catch (error) {
+      console.error('Failed to scan page:', error);
+      alert('This page cannot be scanned.');
+    }
+  };
+
   if (loading) {
     return (
       <div style={styles.container}>
@@ -378,6 +514,14 @@ export default function PopupApp() {
         </div>
       )}
 
+      {/* Works without an account */}
+      {!state.isAuthenticated && (
+        <LocalRules
+          isAuthenticated={false}
+          currentDomain={state.currentDomain}
+        />
+      )}
+
       {state.isAuthenticated && (
         <>
           <div
@@ -625,9 +769,188 @@ export default function PopupApp() {
             </div>
           </div>
 
+          <div style={styles.section}>
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+              }}
+            >
+              <div>
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    marginBottom: '3px',
+                  }}
+                >
+                  <ScreenShareIcon
+                    sx={{
+                      fontSize: 14,
+                      color: '#1976d2',
+                      marginRight: '3px',
+                    }}
+                  />
+                  <span
+                    style={{
+                      fontSize: '13px',
+                      fontWeight: '600',
+                      color: '#333',
+                    }}
+                  >
+                    Presentation Mode
+                  </span>
+                </div>
+                <div style={{ fontSize: '10px', color: '#666' }}>
+                  Blur sensitive data on pages while screen sharing
+                </div>
+              </div>
+
+              <label style={styles.toggle}>
+                <input
+                  type="checkbox"
+                  checked={state.presentationMode}
+                  onChange={togglePresentationMode}
+                  style={{ opacity: 0, width: 0, height: 0 }}
+                />
+                <span
+                  style={{
+                    ...styles.toggleSlider,
+                    backgroundColor: state.presentationMode
+                      ? '#1976d2'
+                      : '#ccc',
+                  }}
+                >
+                  <span
+                    style={{
+                      ...styles.toggleButton,
+                      left: state.presentationMode ? '22px' : '2px',
+                    }}
+                  />
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div style={styles.divider} />
+
+          <div style={styles.section}>
+            <div style={styles.sectionLabel}>Compliance Template</div>
+            <select
+              value={state.complianceTemplate || ''}
+              onChange={e =>
+                handleComplianceTemplateChange(e.target.value || null)
+              }
+              style={styles.select}
+            >
+              <option value="">None (all detectors, warn only)</option>
+              {Object.values(COMPLIANCE_TEMPLATES).map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name} – {template.description}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionLabel}>
+              <PublicIcon
+                sx={{
+                  fontSize: 12,
+                  marginRight: '4px',
+                  verticalAlign: 'middle',
+                }}
+              />
+              Detection Regions
+            </div>
+            <div style={styles.localeList}>
+              {LOCALES.map(locale => {
+                const active = state.locales.includes(locale);
+                return (
+                  <button
+                    key={locale}
+                    type="button"
+                    title={LOCALE_LABELS[locale]}
+                    onClick={() => toggleLocale(locale)}
+                    style={{
+                      ...styles.localeChip,
+                      backgroundColor: active ? '#fff3e0' : 'white',
+                      borderColor: active ? '#ff9800' : '#e5e7eb',
+                      color: active ? '#e65100' : '#6b7280',
+                    }}
+                  >
+                    {locale}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div style={styles.section}>
+            <div style={styles.sectionLabel}>Anonymization</div>
+            <div style={styles.strategyList}>
+              {Object.values(PiiType)
+                .filter(type => type !== 'CUSTOM')
+                .map(type => {
+                  const fallback = DEFAULT_STRATEGIES[type];
+                  return (
+                    <div key={type} style={styles.strategyRow}>
+                      <span style={styles.strategyType}>
+                        {type.replace(/_/g, ' ')}
+                      </span>
+                      <select
+                        value={state.anonymizationStrategies[type] || ''}
+                        onChange={e =>
+                          handleStrategyChange(
+                            type,
+                            (e.target.value as AnonymizationStrategy) || null
+                          )
+                        }
+                        style={styles.strategySelect}
+                      >
+                        <option value="">
+                          Default (
+                          {fallback ? STRATEGY_LABELS[fallback] : '[REDACTED]'})
+                        </option>
+                        {ANONYMIZATION_STRATEGIES.filter(
+                          strategy =>
+                            strategy !== 'fake' || FAKE_TYPES.includes(type)
+                        ).map(strategy => (
+                          <option key={strategy} value={strategy}>
+                            {STRATEGY_LABELS[strategy]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+
+          <div style={styles.divider} />
+
+          <LocalRules isAuthenticated currentDomain={state.currentDomain} />
+
           <div style={styles.divider} />
 
           <div style={styles.links}>
+            <button
+              onClick={scanPage}
+              style={styles.link}
+              onMouseEnter={e => {
+                e.currentTarget.style.backgroundColor = '#f9fafb';
+                e.currentTarget.style.borderColor = '#d1d5db';
+              }}
+              onMouseLeave={e => {
+                e.currentTarget.style.backgroundColor = 'white';
+                e.currentTarget.style.borderColor = '#e5e7eb';
+              }}
+            >
+              <ManageSearchIcon sx={{ fontSize: 14, marginRight: '5px' }} />
+              Scan Page
+            </button>
             <button
               onClick={openDashboard}
               style={styles.link}
@@ -722,6 +1045,47 @@ const styles: Record<string, React.CSSProperties> = {
     marginBottom: '5px',
     fontWeight: '600',
   },
+  localeList: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+  },
+  localeChip: {
+    fontSize: '11px',
+    fontWeight: '600',
+    padding: '3px 8px',
+    borderRadius: '12px',
+    border: '1px solid',
+    cursor: 'pointer',
+  },
+  strategyList: {
+    maxHeight: '140px',
+    overflowY: 'auto',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    padding: '4px 6px',
+  },
+  strategyRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '6px',
+    padding: '2px 0',
+  },
+  strategyType: {
+    fontSize: '11px',
+    fontWeight: '600',
+    color: '#374151',
+  },
+  strategySelect: {
+    fontSize: '11px',
+    padding: '2px 4px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '4px',
+    backgroundColor: 'white',
+    color: '#111827',
+    cursor: 'pointer',
+  },
   domain: {
     fontSize: '13px',
     color: '#111827',
@@ -782,7 +1146,7 @@ const styles: Record<string, React.CSSProperties> = {
   },
   links: {
     display: 'grid',
-    gridTemplateColumns: '1fr 1fr',
+    gridTemplateColumns: '1fr 1fr 1fr',
     gap: '6px',
   },
   link: {
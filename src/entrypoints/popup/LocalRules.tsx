@@ -0,0 +1,390 @@
+// src/entrypoints/popup/LocalRules.tsx
+// Whitelist entries and custom patterns saved on this device. They work
+// signed out; signed in, the background uploads them and only the ones that
+// clash with the account are left here to settle.
+import { useEffect, useState } from 'react';
+import { SYNCED_CONFIG_KEY, type SyncedConfig } from '@/shared/config-sync';
+import {
+  comparePattern,
+  compareWhitelistEntry,
+  createLocalPattern,
+  createLocalWhitelistEntry,
+  LOCAL_PATTERNS_KEY,
+  LOCAL_WHITELIST_KEY,
+  type LocalConflict,
+  type LocalPattern,
+  type LocalWhitelistEntry,
+  type MergeStatus,
+} from '@/shared/local-config';
+import type { WhitelistScope } from '@/shared/whitelist';
+
+const SCOPE_LABELS: Record<WhitelistScope, string> = {
+  all: 'Everything',
+  ai: 'AI scans only',
+  pii_types: 'Some PII types',
+};
+
+const describeScope = (entry: LocalWhitelistEntry) =>
+  entry.scope === 'pii_types'
+    ? (entry.pii_types ?? []).join(', ')
+    : SCOPE_LABELS[entry.scope];
+
+export function LocalRules({
+  isAuthenticated,
+  currentDomain,
+}: {
+  isAuthenticated: boolean;
+  currentDomain: string;
+}) {
+  const [whitelist, setWhitelist] = useState<LocalWhitelistEntry[]>([]);
+  const [patterns, setPatterns] = useState<LocalPattern[]>([]);
+  const [synced, setSynced] = useState<SyncedConfig | null>(null);
+  const [domain, setDomain] = useState('');
+  const [scope, setScope] = useState<WhitelistScope>('all');
+  const [piiTypes, setPiiTypes] = useState('');
+  const [patternName, setPatternName] = useState('');
+  const [patternRegex, setPatternRegex] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    setWhitelist(
+      (await storage.getItem<LocalWhitelistEntry[]>(LOCAL_WHITELIST_KEY)) ?? []
+    );
+    setPatterns(
+      (await storage.getItem<LocalPattern[]>(LOCAL_PATTERNS_KEY)) ?? []
+    );
+    setSynced(await storage.getItem<SyncedConfig>(SYNCED_CONFIG_KEY));
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Signed in, the background uploads what's new and refreshes the synced
+  // copy; what's left afterwards clashes with the account
+  const save = async (
+    nextWhitelist: LocalWhitelistEntry[],
+    nextPatterns: LocalPattern[]
+  ) => {
+    await storage.setItem(LOCAL_WHITELIST_KEY, nextWhitelist);
+    await storage.setItem(LOCAL_PATTERNS_KEY, nextPatterns);
+    if (isAuthenticated) {
+      await browser.runtime.sendMessage({ action: 'syncConfig' });
+    }
+    await load();
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addWhitelistEntry = () =>
+    run(async () => {
+      const entry = createLocalWhitelistEntry(
+        domain,
+        scope,
+        piiTypes.split(',')
+      );
+      await save([...whitelist, entry], patterns);
+      setDomain('');
+      setPiiTypes('');
+    });
+
+  const addPattern = () =>
+    run(async () => {
+      const pattern = createLocalPattern({
+        name: patternName,
+        pattern: patternRegex,
+      });
+      await save(whitelist, [...patterns, pattern]);
+      setPatternName('');
+      setPatternRegex('');
+    });
+
+  const removeItem = (id: string) =>
+    run(() =>
+      save(
+        whitelist.filter(entry => entry.id !== id),
+        patterns.filter(pattern => pattern.id !== id)
+      )
+    );
+
+  // The background replaces the account's version with this device's and
+  // drops the local copy
+  const keepLocal = (item: LocalConflict) =>
+    run(async () => {
+      const response = await browser.runtime.sendMessage({
+        action: 'resolveLocalConflict',
+        item,
+      });
+      if (response?.error) throw new Error(response.error);
+      await load();
+    });
+
+  const isConflict = (status: MergeStatus | null) =>
+    isAuthenticated && status === 'conflict';
+
+  const renderStatus = (conflict: boolean, keep: () => void, id: string) =>
+    conflict ? (
+      <div style={styles.conflict}>
+        Differs from your account.
+        <button
+          type="button"
+          disabled={busy}
+          onClick={keep}
+          style={styles.textButton}
+        >
+          Keep mine
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => removeItem(id)}
+          style={styles.textButton}
+        >
+          Keep account's
+        </button>
+      </div>
+    ) : isAuthenticated ? (
+      <div style={styles.pending}>Not uploaded yet</div>
+    ) : null;
+
+  return (
+    <div style={styles.section}>
+      <div style={styles.sectionLabel}>
+        {isAuthenticated ? 'Saved on this device' : 'Whitelist'}
+      </div>
+      <div style={styles.row}>
+        <input
+          value={domain}
+          onChange={e => setDomain(e.target.value)}
+          placeholder="*.example.com or github.com/org/*"
+          style={{ ...styles.input, flex: 1 }}
+        />
+        {currentDomain && (
+          <button
+            type="button"
+            onClick={() => setDomain(currentDomain)}
+            style={styles.smallButton}
+            title="Use the current site"
+          >
+            This site
+          </button>
+        )}
+      </div>
+      <div style={styles.row}>
+        <select
+          value={scope}
+          onChange={e => setScope(e.target.value as WhitelistScope)}
+          style={{ ...styles.input, flex: 1 }}
+        >
+          {(Object.keys(SCOPE_LABELS) as WhitelistScope[]).map(key => (
+            <option key={key} value={key}>
+              Turn off: {SCOPE_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={busy || !domain.trim()}
+          onClick={addWhitelistEntry}
+          style={styles.smallButton}
+        >
+          Add
+        </button>
+      </div>
+      {scope === 'pii_types' && (
+        <input
+          value={piiTypes}
+          onChange={e => setPiiTypes(e.target.value)}
+          placeholder="EMAIL, PHONE"
+          style={{ ...styles.input, width: '100%', marginBottom: '6px' }}
+        />
+      )}
+      {whitelist.map(entry => (
+        <div key={entry.id} style={styles.item}>
+          <div style={styles.itemRow}>
+            <span style={styles.itemName}>{entry.domain}</span>
+            <span style={styles.itemDetail}>{describeScope(entry)}</span>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => removeItem(entry.id)}
+              style={styles.removeButton}
+              aria-label={`Remove ${entry.domain}`}
+            >
+              ×
+            </button>
+          </div>
+          {renderStatus(
+            isConflict(
+              synced && compareWhitelistEntry(entry, synced.whitelist)
+            ),
+            () => keepLocal({ kind: 'whitelist', entry }),
+            entry.id
+          )}
+        </div>
+      ))}
+
+      <div style={{ ...styles.sectionLabel, marginTop: '10px' }}>
+        Custom Patterns
+      </div>
+      <div style={styles.row}>
+        <input
+          value={patternName}
+          onChange={e => setPatternName(e.target.value)}
+          placeholder="Name"
+          style={{ ...styles.input, width: '35%' }}
+        />
+        <input
+          value={patternRegex}
+          onChange={e => setPatternRegex(e.target.value)}
+          placeholder="Regex, e.g. EMP-\d{6}"
+          style={{ ...styles.input, flex: 1, fontFamily: 'monospace' }}
+        />
+        <button
+          type="button"
+          disabled={busy || !patternName.trim() || !patternRegex}
+          onClick={addPattern}
+          style={styles.smallButton}
+        >
+          Add
+        </button>
+      </div>
+      {patterns.map(pattern => (
+        <div key={pattern.id} style={styles.item}>
+          <div style={styles.itemRow}>
+            <span style={styles.itemName}>{pattern.name}</span>
+            <span style={{ ...styles.itemDetail, fontFamily: 'monospace' }}>
+              {pattern.pattern}
+            </span>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => removeItem(pattern.id)}
+              style={styles.removeButton}
+              aria-label={`Remove ${pattern.name}`}
+            >
+              ×
+            </button>
+          </div>
+          {renderStatus(
+            isConflict(synced && comparePattern(pattern, synced.patterns)),
+            () => keepLocal({ kind: 'pattern', pattern }),
+            pattern.id
+          )}
+        </div>
+      ))}
+
+      {error && <div style={styles.error}>{error}</div>}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  section: {
+    marginBottom: '12px',
+  },
+  sectionLabel: {
+    fontSize: '10px',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    color: '#6b7280',
+    marginBottom: '5px',
+    fontWeight: '600',
+  },
+  row: {
+    display: 'flex',
+    gap: '4px',
+    marginBottom: '6px',
+  },
+  input: {
+    fontSize: '12px',
+    padding: '5px 8px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    backgroundColor: '#f9fafb',
+    color: '#111827',
+    outline: 'none',
+    minWidth: 0,
+    boxSizing: 'border-box',
+  },
+  smallButton: {
+    fontSize: '11px',
+    fontWeight: '600',
+    padding: '4px 8px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+    backgroundColor: 'white',
+    color: '#374151',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  item: {
+    padding: '4px 6px',
+    marginBottom: '4px',
+    border: '1px solid #e5e7eb',
+    borderRadius: '6px',
+  },
+  itemRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  itemName: {
+    fontSize: '12px',
+    fontWeight: '600',
+    color: '#111827',
+    wordBreak: 'break-all',
+  },
+  itemDetail: {
+    flex: 1,
+    fontSize: '11px',
+    color: '#6b7280',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  removeButton: {
+    border: 'none',
+    background: 'none',
+    color: '#9ca3af',
+    cursor: 'pointer',
+    fontSize: '14px',
+    lineHeight: 1,
+    padding: '0 2px',
+  },
+  conflict: {
+    fontSize: '11px',
+    color: '#b45309',
+    marginTop: '3px',
+  },
+  pending: {
+    fontSize: '11px',
+    color: '#6b7280',
+    marginTop: '3px',
+  },
+  textButton: {
+    border: 'none',
+    background: 'none',
+    color: '#ff9800',
+    cursor: 'pointer',
+    fontSize: '11px',
+    fontWeight: '600',
+    padding: '0 0 0 6px',
+  },
+  error: {
+    fontSize: '11px',
+    color: '#dc2626',
+    marginTop: '4px',
+  },
+};
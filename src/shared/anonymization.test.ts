@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyStrategy,
+  createHashKey,
+  hashValues,
+  normalizeStrategies,
+  REPLACEMENT_LABEL_REGEX,
+  resolveStrategy,
+} from './anonymization';
+
+const detection = (type: string, value: string) => ({ type, value });
+
+describe('Anonymization strategies', () => {
+  it('should keep the built-in masks as defaults', () => {
+    const apply = (type: string, value: string) =>
+      applyStrategy(
+        detection(type, value),
+        resolveStrategy(type, {}, {}),
+        'seed'
+      );
+
+    expect(apply('CREDIT_CARD', '4111 1111 1111 1234')).toBe(
+      '•••• •••• •••• 1234'
+    );
+    expect(apply('EMAIL', 'jane@example.com')).toBe('j•••@example.com');
+    expect(apply('SSN', '123-45-6789')).toBe('•••-••-••••');
+    expect(apply('PHONE', '(555) 123-4567')).toBe('(•••) •••-4567');
+    expect(apply('API_KEY', 'sk_live_abc')).toBe('[REDACTED]');
+  });
+
+  it('should apply each strategy', () => {
+    const ssn = detection('SSN', '123-45-6789');
+    expect(applyStrategy(ssn, 'partial', 's')).toBe('•••-••-6789');
+    expect(applyStrategy(ssn, 'label', 's')).toBe('[SSN]');
+    expect(applyStrategy(ssn, 'remove', 's')).toBe('');
+    expect(applyStrategy(ssn, 'tokenize', 's')).toBeNull();
+    expect(applyStrategy(ssn, 'hash', 's')).toBeNull();
+    expect(applyStrategy(detection('API_KEY', 'x'), 'fake', 's')).toBe(
+      '[API_KEY]'
+    );
+  });
+
+  it('should hash values with a keyed HMAC', async () => {
+    const items = [
+      { type: 'SSN', value: '123-45-6789' },
+      { type: 'SSN', value: '123-45-6789' },
+      { type: 'PHONE', value: '123-45-6789' },
+    ];
+    const key = await createHashKey();
+    const hashes = await hashValues(key, items);
+
+    expect(hashes[0]).toMatch(/^\[SSN:[0-9a-f]{16}\]$/);
+    expect(hashes[1]).toBe(hashes[0]);
+    expect(hashes[2]).not.toBe(hashes[0].replace('SSN', 'PHONE'));
+    expect((await hashValues(await createHashKey(), items))[0]).not.toBe(
+      hashes[0]
+    );
+    await expect(crypto.subtle.exportKey('raw', key)).rejects.toThrow();
+  });
+
+  it('should recognise labels and hashes as already anonymized', async () => {
+    const [hash] = await hashValues(await createHashKey(), [
+      { type: 'SSN', value: '123-45-6789' },
+    ]);
+    expect(REPLACEMENT_LABEL_REGEX.test(`My SSN is ${hash}`)).toBe(true);
+    expect(REPLACEMENT_LABEL_REGEX.test('Contact [EMAIL] today')).toBe(true);
+    expect(REPLACEMENT_LABEL_REGEX.test('See [SSN:1a2b] here')).toBe(false);
+  });
+
+  it('should let team strategies override the user table', () => {
+    expect(resolveStrategy('EMAIL', { EMAIL: 'hash' }, {})).toBe('hash');
+    expect(
+      resolveStrategy('EMAIL', { EMAIL: 'hash' }, { EMAIL: 'label' })
+    ).toBe('label');
+  });
+
+  it('should drop unknown strategies', () => {
+    expect(
+      normalizeStrategies({ EMAIL: 'label', SSN: 'shred', PHONE: 3 })
+    ).toEqual({ EMAIL: 'label' });
+    expect(normalizeStrategies(['label'])).toEqual({});
+  });
+});
@@ -0,0 +1,184 @@
+// src/shared/anonymization.ts
+// How each PII type is replaced when anonymized. Users pick a strategy per
+// type in the popup; a team policy's `anonymizationStrategies` overrides
+// them so the output matches the team's data-handling standard.
+import type { DetectionResult, PiiType } from './pii-detector';
+import { createFakeValue } from './synthetic-values';
+
+export type AnonymizationStrategy =
+  | 'mask'
+  | 'partial'
+  | 'hash'
+  | 'label'
+  | 'tokenize'
+  | 'remove'
+  | 'fake';
+
+export const ANONYMIZATION_STRATEGIES: AnonymizationStrategy[] = [
+  'mask',
+  'partial',
+  'hash',
+  'label',
+  'tokenize',
+  'remove',
+  'fake',
+];
+
+export const STRATEGY_LABELS: Record<AnonymizationStrategy, string> = {
+  mask: 'Mask (••••)',
+  partial: 'Partial mask',
+  hash: 'Hash',
+  label: 'Type label',
+  tokenize: 'Reversible token',
+  remove: 'Remove',
+  fake: 'Realistic fake',
+};
+
+// Types without an entry here, in the user's table or in the team policy
+// are replaced with [REDACTED]
+export const DEFAULT_STRATEGIES: Partial<
+  Record<PiiType, AnonymizationStrategy>
+> = {
+  CREDIT_CARD: 'partial',
+  EMAIL: 'partial',
+  PHONE: 'partial',
+  SSN: 'mask',
+};
+
+const MASK_CHAR = '•';
+
+export function isAnonymizationStrategy(
+  value: unknown
+): value is AnonymizationStrategy {
+  return ANONYMIZATION_STRATEGIES.includes(value as AnonymizationStrategy);
+}
+
+// Drops entries that aren't a known strategy, e.g. from a hand-written
+// team policy
+export function normalizeStrategies(
+  raw: unknown
+): Partial<Record<string, AnonymizationStrategy>> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const strategies: Partial<Record<string, AnonymizationStrategy>> = {};
+  for (const [type, strategy] of Object.entries(raw)) {
+    if (isAnonymizationStrategy(strategy)) strategies[type] = strategy;
+  }
+  return strategies;
+}
+
+// Team policy first, then the user's table, then the built-in defaults
+export function resolveStrategy(
+  type: string,
+  userStrategies: Partial<Record<string, AnonymizationStrategy>>,
+  teamStrategies: Partial<Record<string, AnonymizationStrategy>>
+): AnonymizationStrategy | undefined {
+  return (
+    teamStrategies[type] ??
+    userStrategies[type] ??
+    DEFAULT_STRATEGIES[type as PiiType]
+  );
+}
+
+// Every letter and digit becomes a bullet; separators stay
+function mask(value: string): string {
+  return value.replace(/[A-Za-z0-9]/g, MASK_CHAR);
+}
+
+// Keeps just enough to recognise the value: the last four digits of cards,
+// phone numbers and IDs, the first letter and domain of emails
+function partialMask(type: string, value: string): string {
+  if (type === 'EMAIL') {
+    const [user, domain] = value.split('@');
+    if (!user || !domain) return '[REDACTED]';
+    return `${user[0]}${MASK_CHAR.repeat(Math.max(user.length - 1, 2))}@${domain}`;
+  }
+
+  if (type === 'CREDIT_CARD' || type === 'PCI_PAN') {
+    const cleaned = value.replace(/\s/g, '');
+    const masked = MASK_CHAR.repeat(Math.max(cleaned.length - 4, 0));
+    const last4 = cleaned.slice(-4);
+    if (value.includes(' ')) {
+      return `${masked.match(/.{1,4}/g)?.join(' ') ?? ''} ${last4}`.trim();
+    }
+    return masked + last4;
+  }
+
+  const total = (value.match(/[A-Za-z0-9]/g) ?? []).length;
+  if (total <= 4) return mask(value);
+
+  let seen = 0;
+  return value.replace(/[A-Za-z0-9]/g, char =>
+    ++seen > total - 4 ? char : MASK_CHAR
+  );
+}
+
+const HASH_HEX_LENGTH = 16;
+
+// Type labels and hashes put in by the 'label' and 'hash' strategies, e.g.
+// [EMAIL] or [SSN:1a2b3c4d5e6f7a8b]. Text containing them was already
+// anonymized.
+export const REPLACEMENT_LABEL_REGEX = new RegExp(
+  `\\[[A-Z0-9_]+(?::[0-9a-f]{${HASH_HEX_LENGTH}})?\\]`
+);
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+// Key for the 'hash' strategy. Non-extractable: the background stores the
+// key object, but its bytes can't be read back out.
+export function createHashKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+}
+
+// Stable references to the values, e.g. [SSN:1a2b3c4d5e6f7a8b], so the same
+// value can be recognised across documents without showing it. The HMAC is
+// keyed: SSNs and phone numbers are too few to survive an unkeyed hash,
+// since every candidate can simply be hashed and compared.
+export async function hashValues(
+  key: CryptoKey,
+  items: Array<{ type: string; value: string }>
+): Promise<string[]> {
+  const encoder = new TextEncoder();
+  return Promise.all(
+    items.map(async ({ type, value }) => {
+      const mac = await crypto.subtle.sign(
+        'HMAC',
+        key,
+        encoder.encode(`${type}:${value}`)
+      );
+      return `[${type}:${toHex(new Uint8Array(mac)).slice(0, HASH_HEX_LENGTH)}]`;
+    })
+  );
+}
+
+// The replacement for a detection under `strategy`. Returns null for
+// 'tokenize' and 'hash', which need the tab's token vault and the hash
+// secret held by the background; the caller handles them.
+export function applyStrategy(
+  detection: DetectionResult,
+  strategy: AnonymizationStrategy | undefined,
+  fakeSeed: string
+): string | null {
+  const { type, value } = detection;
+  switch (strategy) {
+    case 'mask':
+      return mask(value);
+    case 'partial':
+      return partialMask(type, value);
+    case 'label':
+      return `[${type}]`;
+    case 'remove':
+      return '';
+    case 'fake':
+      // Types without a generator fall back to a label
+      return createFakeValue(type, value, fakeSeed) ?? `[${type}]`;
+    case 'tokenize':
+    case 'hash':
+      return null;
+    default:
+      return '[REDACTED]';
+  }
+}
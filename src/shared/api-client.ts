@@ -1,12 +1,14 @@
 // src/shared/api-client.ts
 import { CustomPattern } from './pii-detector';
+import { normalizeWhitelistPattern, type WhitelistScope } from './whitelist';
 
 // Determine API base URL from environment variable
 // Set VITE_SELF_HOSTED_API_URL in .env to use self-hosted backend
 // If not set, defaults to production API
+const HOSTED_API_URL = 'https://api.pasteproof.com';
 const API_BASE_URL =
   (import.meta.env.VITE_SELF_HOSTED_API_URL as string | undefined) ||
-  'https://api.pasteproof.com';
+  HOSTED_API_URL;
 
 export type ApiConfig = {
   apiKey: string;
@@ -16,6 +18,8 @@ export type ApiConfig = {
 export type AiDetection = {
   type: string;
   value: string;
+  start?: number;
+  end?: number;
   confidence: number;
   reason: string;
 };
@@ -50,7 +54,10 @@ export type DashboardStats = {
 export type WhitelistSite = {
   id: string;
   user_id: string;
+  // Site pattern, see shared/whitelist.ts
   domain: string;
+  scope?: WhitelistScope;
+  pii_types?: string[];
   is_active: number;
   created_at: number;
 };
@@ -77,11 +84,15 @@ export type TeamPolicy = {
           description?: string;
           pattern_type: string;
         }>;
+        // List of { domain, defaultAction?, actions? } or an object keyed by
+        // domain mapping PII types (or "*") to warn/block/anonymize
         domainRules?: any;
         domainBlacklist?: string[];
         domainWhitelist?: string[];
         alertThreshold?: any;
         complianceTemplate?: string;
+        // PII type -> anonymization strategy; overrides the user's table
+        anonymizationStrategies?: Record<string, string>;
         customPatternLimit?: number;
         [key: string]: any;
       };
@@ -89,6 +100,40 @@ export type TeamPolicy = {
   updated_at: number | string;
 };
 
+// A response and the ETag it was served with; see the *IfChanged methods
+export type Versioned<T> = {
+  data: T;
+  etag: string | null;
+};
+
+function parsePolicyData(policy: TeamPolicy): TeamPolicy {
+  try {
+    return {
+      ...policy,
+      policy_data:
+        typeof policy.policy_data === 'string'
+          ? JSON.parse(policy.policy_data)
+          : policy.policy_data,
+    };
+  } catch (parseError) {
+    console.warn('Failed to parse policy_data:', parseError);
+    // Return policy with original policy_data if parsing fails
+    return policy;
+  }
+}
+
+// Thrown for non-2xx responses; `status` lets callers tell a missing
+// endpoint from a failure
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 export class PasteProofApiClient {
   private apiKey: string;
   private baseUrl: string;
@@ -144,10 +189,10 @@ export class PasteProofApiClient {
     return id;
   }
 
-  private async fetch<T>(
+  private async request(
     endpoint: string,
     options: RequestInit = {}
-  ): Promise<T> {
+  ): Promise<Response> {
     // Validate and sanitize endpoint
     const safeEndpoint = this.validateEndpoint(endpoint);
     const url = `${this.baseUrl}${safeEndpoint}`;
@@ -161,17 +206,45 @@ export class PasteProofApiClient {
       },
     });
 
-    if (!response.ok) {
+    // 304 only comes back for conditional requests
+    if (!response.ok && response.status !== 304) {
       const error = await response
         .json()
         .catch(() => ({ error: 'Unknown error' }));
       // Sanitize error message to prevent information disclosure
       const errorMessage = error?.error || `API error: ${response.status}`;
-      throw new Error(errorMessage);
+      throw new ApiError(errorMessage, response.status);
     }
+    return response;
+  }
+
+  private async fetch<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const response = await this.request(endpoint, options);
     return response.json();
   }
 
+  /**
+   * Conditional GET. Resolves to null when the copy tagged `etag` is still
+   * current; servers without ETags always send the full response.
+   */
+  private async fetchIfChanged<T>(
+    endpoint: string,
+    etag?: string | null
+  ): Promise<Versioned<T> | null> {
+    const response = await this.request(
+      endpoint,
+      etag ? { headers: { 'If-None-Match': etag } } : {}
+    );
+    if (response.status === 304) return null;
+    return {
+      data: await response.json(),
+      etag: response.headers.get('ETag'),
+    };
+  }
+
   // Whitelist methods
   async getWhitelist(): Promise<WhitelistSite[]> {
     const data = await this.fetch<{ whitelist: WhitelistSite[] }>(
@@ -206,14 +279,23 @@ export class PasteProofApiClient {
     return domain.trim().toLowerCase();
   }
 
-  async addToWhitelist(domain: string): Promise<WhitelistSite> {
-    const safeDomain = this.validateDomain(domain);
+  // `domain` may be a wildcard or path pattern like "*.example.com" or
+  // "github.com/our-org/*"
+  async addToWhitelist(
+    domain: string,
+    options: { scope?: WhitelistScope; pii_types?: string[] } = {}
+  ): Promise<WhitelistSite> {
+    const pattern = normalizeWhitelistPattern(domain);
+    if (!pattern) {
+      throw new Error('Invalid domain format');
+    }
+
     const data = await this.fetch<{
       success: boolean;
       whitelist: WhitelistSite;
     }>('/v1/whitelist', {
       method: 'POST',
-      body: JSON.stringify({ domain: safeDomain }),
+      body: JSON.stringify({ domain: pattern, ...options }),
     });
     return data.whitelist;
   }
@@ -457,7 +539,7 @@ export class PasteProofApiClient {
   async logDetection(detection: {
     type: string;
     domain: string;
-    action?: 'detected' | 'blocked' | 'anonymized';
+    action?: 'detected' | 'blocked' | 'anonymized' | 'undone';
     metadata?: Record<string, any>;
     team_id?: string | null;
   }): Promise<void> {
@@ -471,23 +553,25 @@ export class PasteProofApiClient {
     }
   }
 
+  // Throws when the batch didn't reach the server, so the caller's queue
+  // can retry it. Entries with an idempotency_key the server has already
+  // stored are skipped.
   async logDetectionsBatch(
     detections: Array<{
       type: string;
       domain: string;
-      action?: 'detected' | 'blocked' | 'anonymized';
+      action?: 'detected' | 'blocked' | 'anonymized' | 'undone';
       metadata?: Record<string, any>;
       team_id?: string | null;
+      idempotency_key?: string;
+      // When the detection happened, ISO 8601
+      timestamp?: string;
     }>
   ): Promise<void> {
-    try {
-      await this.fetch('/v1/detections/batch', {
-        method: 'POST',
-        body: JSON.stringify({ detections }),
-      });
-    } catch (error) {
-      console.warn('Failed to log detections batch:', error);
-    }
+    await this.fetch('/v1/detections/batch', {
+      method: 'POST',
+      body: JSON.stringify({ detections }),
+    });
   }
 
   // Team methods
@@ -509,26 +593,65 @@ export class PasteProofApiClient {
         `/v1/teams/${safeId}/policies`
       );
       // Parse policy_data if it's a string with error handling
-      return data.policies.map(policy => {
-        try {
-          return {
-            ...policy,
-            policy_data:
-              typeof policy.policy_data === 'string'
-                ? JSON.parse(policy.policy_data)
-                : policy.policy_data,
-          };
-        } catch (parseError) {
-          console.warn('Failed to parse policy_data:', parseError);
-          // Return policy with original policy_data if parsing fails
-          return policy;
-        }
-      });
+      return data.policies.map(parsePolicyData);
     } catch (error) {
       console.warn('Failed to fetch team policies:', error);
       return [];
     }
   }
+
+  // Versioned reads for the background's config cache. Unlike the methods
+  // above these throw on failure, so a network error never replaces the
+  // cached copy with an empty list.
+  async getPatternsIfChanged(
+    etag?: string | null
+  ): Promise<Versioned<CustomPattern[]> | null> {
+    const result = await this.fetchIfChanged<{ patterns: CustomPattern[] }>(
+      '/v1/patterns',
+      etag
+    );
+    return result && { data: result.data.patterns, etag: result.etag };
+  }
+
+  async getWhitelistIfChanged(
+    etag?: string | null
+  ): Promise<Versioned<WhitelistSite[]> | null> {
+    const result = await this.fetchIfChanged<{ whitelist: WhitelistSite[] }>(
+      '/v1/whitelist',
+      etag
+    );
+    return result && { data: result.data.whitelist, etag: result.etag };
+  }
+
+  // The self-hosted backend is single-user and has no teams, so it isn't
+  // asked
+  async getTeamsIfChanged(
+    etag?: string | null
+  ): Promise<Versioned<Team[]> | null> {
+    if (this.baseUrl !== HOSTED_API_URL) return { data: [], etag: null };
+    const result = await this.fetchIfChanged<{ teams: Team[] }>(
+      '/v1/teams',
+      etag
+    );
+    return result && { data: result.data.teams, etag: result.etag };
+  }
+
+  async getTeamPoliciesIfChanged(
+    teamId: string,
+    etag?: string | null
+  ): Promise<Versioned<TeamPolicy[]> | null> {
+    const safeId = this.validateId(teamId);
+    const result = await this.fetchIfChanged<{ policies: TeamPolicy[] }>(
+      `/v1/teams/${safeId}/policies`,
+      etag
+    );
+    return (
+      result && {
+        data: result.data.policies.map(parsePolicyData),
+        etag: result.etag,
+      }
+    );
+  }
 }
 
 // Singleton instance
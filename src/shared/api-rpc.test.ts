@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import type { PasteProofApiClient } from './api-client';
+import { createApiProxy, handleApiRequest } from './api-rpc';
+
+const fakeClient = {
+  async isWhitelisted(domain: string) {
+    return domain === 'example.com';
+  },
+  async analyzeContext() {
+    throw new Error('Rate limit exceeded');
+  },
+  async getTeams() {
+    return [{ id: 'team-1', name: 'Team' }];
+  },
+} as unknown as PasteProofApiClient;
+
+describe('API RPC', () => {
+  it('should forward calls to the background client', async () => {
+    const api = createApiProxy(request =>
+      handleApiRequest(fakeClient, request)
+    );
+
+    expect(await api.isWhitelisted('example.com')).toBe(true);
+    expect(await api.isWhitelisted('other.com')).toBe(false);
+    expect(await api.getTeams()).toEqual([{ id: 'team-1', name: 'Team' }]);
+    await expect(api.analyzeContext('text')).rejects.toThrow(
+      'Rate limit exceeded'
+    );
+  });
+
+  it('should refuse unknown methods and signed-out calls', async () => {
+    expect(
+      await handleApiRequest(fakeClient, { method: 'addToWhitelist' })
+    ).toEqual({ error: 'Unknown API method' });
+    expect(await handleApiRequest(null, { method: 'getTeams' })).toEqual({
+      error: 'Not signed in',
+    });
+
+    const api = createApiProxy(async () => undefined);
+    await expect(api.getTeams()).rejects.toThrow('background unavailable');
+  });
+});
@@ -0,0 +1,81 @@
+// src/shared/api-rpc.ts
+// Content scripts don't talk to the API themselves: the background worker
+// holds the only PasteProofApiClient, and pages get a proxy with the same
+// method names that forwards each call over runtime messaging. The API key
+// never enters the page, requests aren't subject to the page's CSP, and
+// every tab shares one client.
+import type { PasteProofApiClient } from './api-client';
+
+export const API_RPC_ACTION = 'apiCall';
+
+// What content scripts may call; anything else is refused by the background
+export const API_RPC_METHODS = [
+  'analyzeContext',
+  'getPatterns',
+  'getTeams',
+  'getTeamPolicies',
+  'getWhitelist',
+  'isWhitelisted',
+  'getUserInfo',
+] as const satisfies ReadonlyArray<keyof PasteProofApiClient>;
+
+export type ApiRpcMethod = (typeof API_RPC_METHODS)[number];
+
+export type ApiProxy = {
+  [M in ApiRpcMethod]: (
+    ...args: Parameters<PasteProofApiClient[M]>
+  ) => Promise<Awaited<ReturnType<PasteProofApiClient[M]>>>;
+};
+
+export type ApiRpcRequest = {
+  action: typeof API_RPC_ACTION;
+  method: ApiRpcMethod;
+  args: unknown[];
+};
+
+export type ApiRpcResponse = { result: unknown } | { error: string };
+
+export function isApiRpcMethod(method: unknown): method is ApiRpcMethod {
+  return API_RPC_METHODS.includes(method as ApiRpcMethod);
+}
+
+// Errors from the client come back as their message, so callers can still
+// match on e.g. "Rate limit exceeded"
+export function createApiProxy(
+  send: (request: ApiRpcRequest) => Promise<ApiRpcResponse | undefined>
+): ApiProxy {
+  const call =
+    (method: ApiRpcMethod) =>
+    async (...args: unknown[]) => {
+      const response = await send({ action: API_RPC_ACTION, method, args });
+      if (!response) throw new Error('Extension background unavailable');
+      if ('error' in response) throw new Error(response.error);
+      return response.result;
+    };
+
+  return Object.fromEntries(
+    API_RPC_METHODS.map(method => [method, call(method)])
+  ) as ApiProxy;
+}
+
+// Runs a request from a content script against the background's client.
+// `client` is null while the user is signed out.
+export async function handleApiRequest(
+  client: PasteProofApiClient | null,
+  request: { method?: unknown; args?: unknown }
+): Promise<ApiRpcResponse> {
+  if (!isApiRpcMethod(request.method)) {
+    return { error: 'Unknown API method' };
+  }
+  if (!client) return { error: 'Not signed in' };
+
+  const method = client[request.method] as (
+    ...args: unknown[]
+  ) => Promise<unknown>;
+  try {
+    const args = Array.isArray(request.args) ? request.args : [];
+    return { result: await method.apply(client, args) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,14 @@
+// src/shared/background-api.ts
+// The API proxy content scripts use, kept apart from api-rpc so that module
+// stays free of extension globals
+import { createApiProxy, type ApiProxy } from './api-rpc';
+
+// Singleton instance
+let backgroundApi: ApiProxy | null = null;
+
+export function getBackgroundApi(): ApiProxy {
+  backgroundApi ??= createApiProxy(request =>
+    browser.runtime.sendMessage(request)
+  );
+  return backgroundApi;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  EDITOR_REQUEST_EVENT,
+  EDITOR_RESPONSE_EVENT,
+  findChanges,
+  getCodeEditorRoot,
+  readCodeEditor,
+  replaceInCodeEditor,
+} from './code-editors';
+
+describe('Code editors', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should find the editor root from its inner elements', () => {
+    document.body.innerHTML =
+      '<div class="monaco-editor"><textarea class="inputarea"></textarea></div><textarea id="plain"></textarea>';
+    const inner = document.querySelector('.inputarea')!;
+    expect(getCodeEditorRoot(inner)).toBe(
+      document.querySelector('.monaco-editor')
+    );
+    expect(getCodeEditorRoot(document.querySelector('#plain')!)).toBeNull();
+  });
+
+  it('should build sorted, non-overlapping changes', () => {
+    const text = 'a@b.com then x@y.com and a@b.com';
+    expect(
+      findChanges(text, [
+        { value: 'a@b.com', replacement: '[EMAIL]' },
+        { value: 'b.com', replacement: '[HOST]' },
+        { value: 'x@y.com', replacement: '[EMAIL]' },
+      ])
+    ).toEqual([
+      { from: 0, to: 7, insert: '[EMAIL]' },
+      { from: 13, to: 20, insert: '[EMAIL]' },
+      { from: 25, to: 32, insert: '[EMAIL]' },
+    ]);
+  });
+
+  it('should talk to the page bridge synchronously', () => {
+    document.body.innerHTML = '<div class="cm-editor"></div>';
+    const root = document.querySelector<HTMLElement>('.cm-editor')!;
+    let text = 'key sk_live_123';
+
+    // Stand-in for the page script
+    const bridge = (event: Event) => {
+      const request = JSON.parse((event as CustomEvent<string>).detail);
+      let response: object = { ok: true, value: text };
+      if (request.op === 'replace') {
+        const changes = findChanges(text, request.replacements);
+        changes.reverse().forEach(({ from, to, insert }) => {
+          text = text.slice(0, from) + insert + text.slice(to);
+        });
+        response = { ok: true, count: changes.length };
+      }
+      event.target!.dispatchEvent(
+        new CustomEvent(EDITOR_RESPONSE_EVENT, {
+          detail: JSON.stringify(response),
+        })
+      );
+    };
+    document.addEventListener(EDITOR_REQUEST_EVENT, bridge, true);
+
+    expect(readCodeEditor(root)).toBe('key sk_live_123');
+    expect(
+      replaceInCodeEditor(root, [
+        { value: 'sk_live_123', replacement: '[API_KEY]' },
+      ])
+    ).toBe(1);
+    expect(text).toBe('key [API_KEY]');
+
+    document.removeEventListener(EDITOR_REQUEST_EVENT, bridge, true);
+  });
+
+  it('should report an unreachable model without a bridge', () => {
+    document.body.innerHTML = '<div class="CodeMirror"></div>';
+    const root = document.querySelector<HTMLElement>('.CodeMirror')!;
+    expect(readCodeEditor(root)).toBeNull();
+    expect(replaceInCodeEditor(root, [])).toBeNull();
+  });
+});
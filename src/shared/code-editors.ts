@@ -0,0 +1,104 @@
+// src/shared/code-editors.ts
+// Monaco and CodeMirror keep their text in a model and only render the
+// visible lines, so the DOM (or Monaco's hidden textarea) doesn't hold the
+// whole document and edits to it are overwritten on the next render. The
+// models are page objects the content script's isolated world can't see,
+// so an injected page script (entrypoints/editor-bridge.ts) reads and
+// edits them. Both sides talk through DOM events with JSON string details,
+// which cross the world boundary in every browser.
+import type { TextReplacement } from './rich-text';
+
+export const CODE_EDITOR_SELECTOR = '.monaco-editor, .cm-editor, .CodeMirror';
+
+export const EDITOR_REQUEST_EVENT = 'pasteproof-editor-request';
+export const EDITOR_RESPONSE_EVENT = 'pasteproof-editor-response';
+
+export type EditorRequest =
+  | { op: 'read' }
+  | { op: 'replace'; replacements: TextReplacement[] };
+
+export type EditorResponse =
+  | { ok: true; value?: string; count?: number }
+  | { ok: false };
+
+export type EditorChange = { from: number; to: number; insert: string };
+
+// The code editor `element` is part of, e.g. Monaco's hidden textarea or
+// CodeMirror 6's .cm-content
+export function getCodeEditorRoot(element: Element): HTMLElement | null {
+  return element.closest<HTMLElement>(CODE_EDITOR_SELECTOR);
+}
+
+// Non-overlapping edits for every occurrence of each value, sorted by
+// position. Earlier replacements win over later ones that overlap them, so
+// pass the longest values first.
+export function findChanges(
+  text: string,
+  replacements: TextReplacement[]
+): EditorChange[] {
+  const changes: EditorChange[] = [];
+  const overlaps = (from: number, to: number) =>
+    changes.some(change => from < change.to && to > change.from);
+
+  for (const { value, replacement } of replacements) {
+    if (!value) continue;
+    let from = text.indexOf(value);
+    while (from !== -1) {
+      const to = from + value.length;
+      if (!overlaps(from, to)) changes.push({ from, to, insert: replacement });
+      from = text.indexOf(value, to);
+    }
+  }
+
+  return changes.sort((a, b) => a.from - b.from);
+}
+
+// Content script side. dispatchEvent runs the page script's listener
+// synchronously, so the response is there when it returns.
+function requestEditor(
+  root: HTMLElement,
+  request: EditorRequest
+): EditorResponse {
+  let response: EditorResponse = { ok: false };
+  const onResponse = (event: Event) => {
+    try {
+      response = JSON.parse((event as CustomEvent<string>).detail);
+    } catch {
+      response = { ok: false };
+    }
+  };
+
+  root.addEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  try {
+    root.dispatchEvent(
+      new CustomEvent(EDITOR_REQUEST_EVENT, {
+        bubbles: true,
+        composed: true,
+        detail: JSON.stringify(request),
+      })
+    );
+  } finally {
+    root.removeEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  }
+  return response;
+}
+
+// The editor's full text, or null when its model isn't reachable (no
+// bridge, unknown editor version)
+export function readCodeEditor(root: HTMLElement): string | null {
+  const response = requestEditor(root, { op: 'read' });
+  return response.ok && typeof response.value === 'string'
+    ? response.value
+    : null;
+}
+
+// Replaces values through the editor's model so they land in its undo
+// history. Returns the number of replacements, or null when the model
+// isn't reachable.
+export function replaceInCodeEditor(
+  root: HTMLElement,
+  replacements: TextReplacement[]
+): number | null {
+  const response = requestEditor(root, { op: 'replace', replacements });
+  return response.ok ? (response.count ?? 0) : null;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getComplianceTemplate,
+  getTemplateAction,
+  getTemplateTypes,
+} from './compliance-templates';
+import { detectPii, PiiType } from './pii-detector';
+
+describe('Compliance templates', () => {
+  it('should resolve templates by id and common spellings', () => {
+    expect(getComplianceTemplate('HIPAA')?.id).toBe('HIPAA');
+    expect(getComplianceTemplate('pci-dss')?.id).toBe('PCI_DSS');
+    expect(getComplianceTemplate('soc2')?.id).toBe('SOC2_SECRETS');
+    expect(getComplianceTemplate('unknown')).toBeNull();
+    expect(getComplianceTemplate(undefined)).toBeNull();
+  });
+
+  it('should turn off regulated detectors the template does not list', () => {
+    const types = getTemplateTypes(getComplianceTemplate('PCI_DSS')!);
+    expect(types).toContain(PiiType.PciCvv);
+    expect(types).toContain(PiiType.Email);
+    expect(types).not.toContain(PiiType.HipaaMrn);
+
+    const text = 'MRN 12345678 and CVV 123';
+    const results = detectPii(text, { types });
+    expect(results.map(r => r.type)).toEqual([PiiType.PciCvv]);
+  });
+
+  it('should resolve per-type actions with a default', () => {
+    const pci = getComplianceTemplate('PCI_DSS')!;
+    expect(getTemplateAction(pci, 'PCI_CVV')).toBe('block');
+    expect(getTemplateAction(pci, 'CREDIT_CARD')).toBe('anonymize');
+    // Types outside the template keep the warning badge
+    expect(getTemplateAction(pci, 'EMAIL')).toBe('warn');
+  });
+});
@@ -0,0 +1,186 @@
+// src/shared/compliance-templates.ts
+// Named compliance templates. Each one switches on the detectors a
+// regulation cares about and sets what happens when they fire. Selected by
+// the user in the popup or by a team policy's `complianceTemplate`, which
+// takes precedence.
+import { PiiType } from './pii-detector';
+import type { Locale } from './locale-packs';
+
+export type PolicyAction = 'warn' | 'block' | 'anonymize';
+
+export type ComplianceTemplateId =
+  | 'HIPAA'
+  | 'PCI_DSS'
+  | 'GDPR'
+  | 'SOC2_SECRETS'
+  | 'CCPA';
+
+export type ComplianceTemplate = {
+  id: ComplianceTemplateId;
+  name: string;
+  description: string;
+  // Detectors this template needs
+  types: PiiType[];
+  // Locale packs added to the user's own selection
+  locales?: Locale[];
+  // Action for the template's types unless overridden in `actions`
+  defaultAction: PolicyAction;
+  actions?: Partial<Record<PiiType, PolicyAction>>;
+};
+
+// Detectors that only make sense under a regulation. They stay off while a
+// template that doesn't list them is active.
+const REGULATED_TYPES: PiiType[] = [
+  'HIPAA_MRN',
+  'HIPAA_ACCOUNT',
+  'HIPAA_DOB',
+  'PCI_CVV',
+  'PCI_PAN',
+  'PCI_TRACK',
+  'PCI_EXPIRY',
+  'GDPR_PASSPORT',
+  'GDPR_NIN',
+  'GDPR_IBAN',
+  'EU_NATIONAL_ID',
+];
+
+const SECRET_TYPES: PiiType[] = [
+  'API_KEY',
+  'AWS_KEY',
+  'PRIVATE_KEY',
+  'PASSWORD',
+  'SLACK_TOKEN',
+  'JWT',
+  'GITHUB_TOKEN',
+  'GCP_SERVICE_ACCOUNT',
+  'HIGH_ENTROPY_SECRET',
+];
+
+export const COMPLIANCE_TEMPLATES: Record<
+  ComplianceTemplateId,
+  ComplianceTemplate
+> = {
+  HIPAA: {
+    id: 'HIPAA',
+    name: 'HIPAA',
+    description: 'Protected health information',
+    types: [
+      'HIPAA_MRN',
+      'HIPAA_ACCOUNT',
+      'HIPAA_DOB',
+      'SSN',
+      'EMAIL',
+      'PHONE',
+      'ADDRESS',
+    ],
+    defaultAction: 'warn',
+    actions: {
+      HIPAA_MRN: 'anonymize',
+      HIPAA_DOB: 'anonymize',
+      SSN: 'anonymize',
+    },
+  },
+  PCI_DSS: {
+    id: 'PCI_DSS',
+    name: 'PCI-DSS',
+    description: 'Cardholder and sensitive authentication data',
+    types: ['CREDIT_CARD', 'PCI_PAN', 'PCI_CVV', 'PCI_TRACK', 'PCI_EXPIRY'],
+    defaultAction: 'anonymize',
+    actions: {
+      // Sensitive authentication data must never be stored
+      PCI_CVV: 'block',
+      PCI_TRACK: 'block',
+      PCI_EXPIRY: 'warn',
+    },
+  },
+  GDPR: {
+    id: 'GDPR',
+    name: 'GDPR',
+    description: 'Personal data of EU and UK residents',
+    types: [
+      'GDPR_PASSPORT',
+      'GDPR_NIN',
+      'GDPR_IBAN',
+      'EU_NATIONAL_ID',
+      'EMAIL',
+      'PHONE',
+      'ADDRESS',
+      'IP_ADDRESS',
+    ],
+    locales: ['INTL', 'EU', 'GB'],
+    defaultAction: 'anonymize',
+    actions: {
+      EMAIL: 'warn',
+      PHONE: 'warn',
+      IP_ADDRESS: 'warn',
+    },
+  },
+  SOC2_SECRETS: {
+    id: 'SOC2_SECRETS',
+    name: 'SOC 2 secrets',
+    description: 'Credentials, keys and tokens',
+    types: SECRET_TYPES,
+    defaultAction: 'block',
+    actions: {
+      // Too noisy to block outright
+      HIGH_ENTROPY_SECRET: 'warn',
+    },
+  },
+  CCPA: {
+    id: 'CCPA',
+    name: 'CCPA',
+    description: 'Personal information of California residents',
+    types: [
+      'SSN',
+      'EMAIL',
+      'PHONE',
+      'ADDRESS',
+      'CREDIT_CARD',
+      'ABA_ROUTING',
+      'IP_ADDRESS',
+    ],
+    locales: ['US'],
+    defaultAction: 'warn',
+    actions: {
+      SSN: 'anonymize',
+      CREDIT_CARD: 'anonymize',
+    },
+  },
+};
+
+// Accepts the ids above as well as the spellings policies tend to use
+// ("pci-dss", "soc2", "hipaa")
+export function getComplianceTemplate(
+  id: string | null | undefined
+): ComplianceTemplate | null {
+  if (!id) return null;
+
+  const normalized = id.trim().toUpperCase().replace(/[\s-]/g, '_');
+  const aliases: Record<string, ComplianceTemplateId> = {
+    PCI: 'PCI_DSS',
+    PCIDSS: 'PCI_DSS',
+    SOC2: 'SOC2_SECRETS',
+    SOC_2: 'SOC2_SECRETS',
+  };
+  const templateId = (aliases[normalized] ??
+    normalized) as ComplianceTemplateId;
+  return COMPLIANCE_TEMPLATES[templateId] ?? null;
+}
+
+// Built-in types that should run under a template: everything that is not
+// regulation-specific, plus whatever the template asks for
+export function getTemplateTypes(template: ComplianceTemplate): PiiType[] {
+  return Object.values(PiiType).filter(
+    type => !REGULATED_TYPES.includes(type) || template.types.includes(type)
+  );
+}
+
+// What to do when a detection of this type fires. Types outside the
+// template keep the normal warning badge.
+export function getTemplateAction(
+  template: ComplianceTemplate,
+  type: string
+): PolicyAction {
+  if (!template.types.includes(type as PiiType)) return 'warn';
+  return template.actions?.[type as PiiType] ?? template.defaultAction;
+}
@@ -0,0 +1,164 @@
+// src/shared/components/FileReviewDialog.tsx
+import { useEffect } from 'react';
+import { compareDetections } from '@/shared/pii-detector';
+import type { FileScanResult } from '@/shared/file-scan';
+
+const NOT_SCANNED_REASONS: Record<
+  NonNullable<FileScanResult['reason']>,
+  string
+> = {
+  binary: 'Not scanned (binary file)',
+  too_large: 'Not scanned (file too large)',
+  unreadable: 'Not scanned (could not be read)',
+};
+
+// Asks whether files with sensitive data should still go to the site
+export function FileReviewDialog({
+  files,
+  onUploadAnyway,
+  onCancel,
+}: {
+  files: FileScanResult[];
+  onUploadAnyway: () => void;
+  onCancel: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onCancel]);
+
+  const buttonStyle: React.CSSProperties = {
+    border: 'none',
+    padding: '8px 14px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: '600',
+  };
+
+  return (
+    <div
+      onMouseDown={e => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pasteproof-file-review-title"
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          padding: '16px',
+          width: '400px',
+          maxWidth: 'calc(100vw - 32px)',
+          color: '#333',
+        }}
+      >
+        <div
+          id="pasteproof-file-review-title"
+          style={{
+            fontWeight: '600',
+            fontSize: '15px',
+            color: '#d32f2f',
+            marginBottom: '8px',
+          }}
+        >
+          🛡️ Sensitive data in files
+        </div>
+        <div style={{ fontSize: '13px', color: '#666', marginBottom: '12px' }}>
+          Some of the files you are adding may contain sensitive data. Nothing
+          has been uploaded yet.
+        </div>
+
+        <div
+          style={{
+            maxHeight: '240px',
+            overflowY: 'auto',
+            marginBottom: '12px',
+          }}
+        >
+          {files.map((file, idx) => {
+            const types = [
+              ...new Set(
+                [...file.detections].sort(compareDetections).map(d => d.type)
+              ),
+            ];
+            return (
+              <div
+                key={idx}
+                style={{
+                  padding: '6px 8px',
+                  marginBottom: '6px',
+                  backgroundColor: types.length > 0 ? '#fff3cd' : '#f5f5f5',
+                  border: `1px solid ${types.length > 0 ? '#ffc107' : '#e0e0e0'}`,
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                }}
+              >
+                <div
+                  style={{
+                    fontFamily: 'monospace',
+                    fontWeight: '600',
+                    wordBreak: 'break-all',
+                    marginBottom: '2px',
+                  }}
+                >
+                  {file.name}
+                </div>
+                <div style={{ color: types.length > 0 ? '#ff9800' : '#666' }}>
+                  {!file.scanned && file.reason
+                    ? NOT_SCANNED_REASONS[file.reason]
+                    : types.length > 0
+                      ? types.map(type => type.replace(/_/g, ' ')).join(', ')
+                      : 'Nothing found'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div
+          style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}
+        >
+          <button
+            type="button"
+            autoFocus
+            onClick={onCancel}
+            style={{ ...buttonStyle, backgroundColor: '#eee', color: '#333' }}
+          >
+            Don't upload
+          </button>
+          <button
+            type="button"
+            onClick={onUploadAnyway}
+            style={{
+              ...buttonStyle,
+              backgroundColor: '#9e9e9e',
+              color: 'white',
+            }}
+          >
+            Upload anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
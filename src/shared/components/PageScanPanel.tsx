@@ -0,0 +1,137 @@
+// src/shared/components/PageScanPanel.tsx
+import { useEffect } from 'react';
+import { DetectionResult } from '@/shared/pii-detector';
+
+// Lists what a page or selection scan found, in page order. Picking an item
+// scrolls to its highlight.
+export function PageScanPanel({
+  scope,
+  detections,
+  selectedIndex,
+  truncated,
+  onSelect,
+  onClose,
+}: {
+  scope: 'page' | 'selection';
+  detections: DetectionResult[];
+  selectedIndex: number | null;
+  // Set when the page had more text than a scan covers
+  truncated: boolean;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  return (
+    <div
+      role="complementary"
+      aria-labelledby="pasteproof-page-scan-title"
+      style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        width: '320px',
+        maxWidth: '100vw',
+        height: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'white',
+        boxShadow: '-4px 0 12px rgba(0,0,0,0.15)',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        color: '#333',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '12px 16px',
+          borderBottom: '1px solid #eee',
+        }}
+      >
+        <div
+          id="pasteproof-page-scan-title"
+          style={{ fontWeight: '600', fontSize: '15px' }}
+        >
+          🛡️ {scope === 'page' ? 'Page scan' : 'Selection scan'}
+        </div>
+        <button
+          type="button"
+          aria-label="Close"
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            fontSize: '18px',
+            color: '#666',
+            padding: 0,
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ padding: '12px 16px', fontSize: '13px', color: '#666' }}>
+        {detections.length === 0
+          ? `No sensitive data found in this ${scope}.`
+          : `Found ${detections.length} item${detections.length !== 1 ? 's' : ''} that may be sensitive.`}
+        {truncated && ' Only the first part of the page was scanned.'}
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '0 16px 16px' }}>
+        {detections.map((d, idx) => (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => onSelect(idx)}
+            style={{
+              display: 'block',
+              width: '100%',
+              textAlign: 'left',
+              padding: '6px 8px',
+              marginBottom: '6px',
+              backgroundColor: idx === selectedIndex ? '#ffe0b2' : '#fff3cd',
+              border: `1px solid ${idx === selectedIndex ? '#ff9800' : '#ffc107'}`,
+              borderRadius: '4px',
+              fontSize: '12px',
+              cursor: 'pointer',
+            }}
+          >
+            <div
+              style={{
+                fontWeight: '600',
+                color: '#ff9800',
+                textTransform: 'uppercase',
+                letterSpacing: '0.5px',
+                marginBottom: '2px',
+              }}
+            >
+              {d.type.replace(/_/g, ' ')}
+            </div>
+            <div
+              style={{
+                fontFamily: 'monospace',
+                color: '#666',
+                wordBreak: 'break-all',
+              }}
+            >
+              {d.value.length > 60 ? `${d.value.slice(0, 60)}…` : d.value}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// src/shared/components/PasteReviewDialog.tsx
+import { useEffect } from 'react';
+import { DetectionResult, compareDetections } from '@/shared/pii-detector';
+
+// Asks what to do with clipboard text before it is inserted into the page
+export function PasteReviewDialog({
+  detections,
+  onPasteAnyway,
+  onPasteAnonymized,
+  onCancel,
+}: {
+  detections: DetectionResult[];
+  onPasteAnyway: () => void;
+  onPasteAnonymized: () => void;
+  onCancel: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onCancel]);
+
+  const sortedDetections = [...detections].sort(compareDetections);
+
+  const buttonStyle: React.CSSProperties = {
+    border: 'none',
+    padding: '8px 14px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: '600',
+  };
+
+  return (
+    <div
+      onMouseDown={e => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pasteproof-paste-review-title"
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          padding: '16px',
+          width: '380px',
+          maxWidth: 'calc(100vw - 32px)',
+          color: '#333',
+        }}
+      >
+        <div
+          id="pasteproof-paste-review-title"
+          style={{
+            fontWeight: '600',
+            fontSize: '15px',
+            color: '#d32f2f',
+            marginBottom: '8px',
+          }}
+        >
+          🛡️ Sensitive data in clipboard
+        </div>
+        <div style={{ fontSize: '13px', color: '#666', marginBottom: '12px' }}>
+          The text you are pasting contains{' '}
+          {detections.length === 1 ? 'an item' : `${detections.length} items`}{' '}
+          that may be sensitive. Nothing has been pasted yet.
+        </div>
+
+        <div
+          style={{
+            maxHeight: '200px',
+            overflowY: 'auto',
+            marginBottom: '12px',
+          }}
+        >
+          {sortedDetections.map((d, idx) => (
+            <div
+              key={idx}
+              style={{
+                padding: '6px 8px',
+                marginBottom: '6px',
+                backgroundColor: '#fff3cd',
+                border: '1px solid #ffc107',
+                borderRadius: '4px',
+                fontSize: '12px',
+              }}
+            >
+              <div
+                style={{
+                  fontWeight: '600',
+                  color: '#ff9800',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.5px',
+                  marginBottom: '2px',
+                }}
+              >
+                {d.type.replace(/_/g, ' ')}
+              </div>
+              <div
+                style={{
+                  fontFamily: 'monospace',
+                  color: '#666',
+                  wordBreak: 'break-all',
+                }}
+              >
+                {d.value.length > 60 ? `${d.value.slice(0, 60)}…` : d.value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}
+        >
+          <button
+            type="button"
+            onClick={onCancel}
+            style={{ ...buttonStyle, backgroundColor: '#eee', color: '#333' }}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onPasteAnyway}
+            style={{
+              ...buttonStyle,
+              backgroundColor: '#9e9e9e',
+              color: 'white',
+            }}
+          >
+            Paste anyway
+          </button>
+          <button
+            type="button"
+            autoFocus
+            onClick={onPasteAnonymized}
+            style={{
+              ...buttonStyle,
+              backgroundColor: '#ff9800',
+              color: 'white',
+            }}
+          >
+            Paste anonymized
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
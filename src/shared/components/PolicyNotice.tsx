@@ -0,0 +1,77 @@
+// src/shared/components/PolicyNotice.tsx
+import { useEffect } from 'react';
+
+const AUTO_DISMISS_MS = 5000;
+
+// Toast shown when a team or compliance policy stops an action outright
+export function PolicyNotice({
+  title,
+  message,
+  types,
+  onClose,
+}: {
+  title: string;
+  message: string;
+  types: string[];
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(onClose, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [onClose]);
+
+  return (
+    <div
+      role="alert"
+      style={{
+        position: 'fixed',
+        bottom: '24px',
+        right: '24px',
+        maxWidth: '340px',
+        backgroundColor: 'white',
+        border: '1px solid #f44336',
+        borderLeft: '4px solid #d32f2f',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        padding: '12px 16px',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        color: '#333',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '6px',
+        }}
+      >
+        <strong style={{ color: '#d32f2f', fontSize: '14px' }}>
+          🛡️ {title}
+        </strong>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Dismiss"
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            fontSize: '16px',
+            color: '#666',
+            padding: 0,
+          }}
+        >
+          ×
+        </button>
+      </div>
+      <div style={{ fontSize: '13px', marginBottom: '6px' }}>{message}</div>
+      {types.length > 0 && (
+        <div style={{ fontSize: '11px', color: '#666' }}>
+          {types.map(t => t.replace(/_/g, ' ')).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,51 @@
 // src/shared/components/SimpleWarningBadge.tsx
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { DetectionResult } from '@/shared/pii-detector';
-import { getApiClient, AiDetection } from '@/shared/api-client';
+import {
+  DetectionResult,
+  Severity,
+  compareDetections,
+  getSeverity,
+  LOW_CONFIDENCE_THRESHOLD,
+} from '@/shared/pii-detector';
+import type { AiDetection } from '@/shared/api-client';
+import { getBackgroundApi } from '@/shared/background-api';
+
+// Card colours for pattern detections, most severe in red
+const SEVERITY_COLORS: Record<
+  Severity,
+  { text: string; background: string; border: string }
+> = {
+  critical: { text: '#d32f2f', background: '#fdecea', border: '#f44336' },
+  high: { text: '#ff9800', background: '#fff3cd', border: '#ffc107' },
+  medium: { text: '#f9a825', background: '#fffde7', border: '#fff176' },
+  low: { text: '#607d8b', background: '#eceff1', border: '#b0bec5' },
+};
 
 export function SimpleWarningBadge({
   detections,
   onAnonymize,
+  onPseudonymize,
   onPopupStateChange,
   inputText,
   initialAiDetections,
   variant = 'full',
   alwaysShowDot = false,
   autoAiEnabled = false,
+  aiDisabled = false,
 }: {
   detections: DetectionResult[];
   onAnonymize: (detections: DetectionResult[]) => void;
+  // Replaces detections with reversible tokens instead of masking them
+  onPseudonymize?: (detections: DetectionResult[]) => void;
   onPopupStateChange: (isOpen: boolean) => void;
   inputText?: string;
   initialAiDetections?: AiDetection[];
   variant?: 'full' | 'dot';
   alwaysShowDot?: boolean;
   autoAiEnabled?: boolean;
+  // The site's whitelist entry turns AI scans off
+  aiDisabled?: boolean;
 }) {
   const [showPopup, setShowPopup] = useState(false);
   const [aiDetections, setAiDetections] = useState<AiDetection[] | null>(
@@ -33,6 +57,7 @@ export function SimpleWarningBadge({
     initialAiDetections && initialAiDetections.length > 0 ? 'ai' : 'regex'
   );
   const [_, setSuccess] = useState<string>('');
+  const [showLowConfidence, setShowLowConfidence] = useState(false);
   const badgeRef = useRef<HTMLDivElement>(null);
   const [popupPosition, setPopupPosition] = useState<{
     top?: number;
@@ -138,17 +163,18 @@ export function SimpleWarningBadge({
     e.preventDefault();
     e.stopPropagation();
 
+    if (aiDisabled) {
+      setActiveTab('ai');
+      setAiError('AI scanning is turned off for this site');
+      return;
+    }
+
     setAiScanning(true);
     setAiError(null);
     setActiveTab('ai');
 
     try {
-      const apiClient = getApiClient();
-      if (!apiClient) {
-        throw new Error('No API key configured');
-      }
-
-      const result = await apiClient.analyzeContext(
+      const result = await getBackgroundApi().analyzeContext(
         inputText || '',
         window.location.hostname,
         'freeform' // Default to freeform for manual scans without input context
@@ -187,7 +213,7 @@ export function SimpleWarningBadge({
     }
 
     const detectionToAnonymize: DetectionResult =
-      'confidence' in detection
+      'reason' in detection
         ? { type: detection.type, value: detection.value }
         : detection;
 
@@ -205,6 +231,12 @@ export function SimpleWarningBadge({
     onPopupStateChange(false);
   };
 
+  const handlePseudonymizeAll = () => {
+    onPseudonymize?.(detections);
+    setShowPopup(false);
+    onPopupStateChange(false);
+  };
+
   const handleAnonymizeAllAi = () => {
     if (!aiDetections || aiDetections.length === 0) return;
 
@@ -225,6 +257,15 @@ export function SimpleWarningBadge({
     aiDetections?.length || 0
   );
   const hasAiDetections = aiDetections && aiDetections.length > 0;
+  const sortedDetections = [...detections].sort(compareDetections);
+  const lowConfidenceCount = sortedDetections.filter(
+    d => (d.confidence ?? 1) < LOW_CONFIDENCE_THRESHOLD
+  ).length;
+  const visibleDetections = showLowConfidence
+    ? sortedDetections
+    : sortedDetections.filter(
+        d => (d.confidence ?? 1) >= LOW_CONFIDENCE_THRESHOLD
+      );
   const hasAnyDetections = detections.length > 0 || hasAiDetections;
 
   const renderPopup = () => {
@@ -394,72 +435,83 @@ export function SimpleWarningBadge({
               {activeTab === 'regex' ? (
                 <>
                   {detections.length > 0 ? (
-                    detections.map((d, idx) => (
-                      <div
-                        key={idx}
-                        style={{
-                          padding: '10px',
-                          marginBottom: '8px',
-                          backgroundColor: '#fff3cd',
-                          borderRadius: '6px',
-                          border: '1px solid #ffc107',
-                        }}
-                      >
-                        <div
-                          style={{
-                            fontWeight: '600',
-                            color: '#ff9800',
-                            marginBottom: '6px',
-                            fontSize: '12px',
-                            textTransform: 'uppercase',
-                            letterSpacing: '0.5px',
-                          }}
-                        >
-                          {d.type.replace(/_/g, ' ')}
-                        </div>
+                    visibleDetections.map((d, idx) => {
+                      const colors =
+                        SEVERITY_COLORS[d.severity ?? getSeverity(d.type)];
+                      return (
                         <div
+                          key={idx}
                           style={{
+                            padding: '10px',
                             marginBottom: '8px',
-                            color: '#666',
-                            wordBreak: 'break-all',
-                            fontFamily: 'monospace',
-                            fontSize: '13px',
-                            padding: '6px',
-                            backgroundColor: 'white',
-                            borderRadius: '4px',
+                            backgroundColor: colors.background,
+                            borderRadius: '6px',
+                            border: `1px solid ${colors.border}`,
                           }}
                         >
-                          {d.value}
+                          <div
+                            style={{
+                              display: 'flex',
+                              justifyContent: 'space-between',
+                              fontWeight: '600',
+                              color: colors.text,
+                              marginBottom: '6px',
+                              fontSize: '12px',
+                              textTransform: 'uppercase',
+                              letterSpacing: '0.5px',
+                            }}
+                          >
+                            <span>{d.type.replace(/_/g, ' ')}</span>
+                            <span>
+                              {d.severity ?? getSeverity(d.type)}
+                              {d.confidence !== undefined &&
+                                ` · ${Math.round(d.confidence * 100)}%`}
+                            </span>
+                          </div>
+                          <div
+                            style={{
+                              marginBottom: '8px',
+                              color: '#666',
+                              wordBreak: 'break-all',
+                              fontFamily: 'monospace',
+                              fontSize: '13px',
+                              padding: '6px',
+                              backgroundColor: 'white',
+                              borderRadius: '4px',
+                            }}
+                          >
+                            {d.value}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={e => handleAnonymizeClick(d, e)}
+                            style={{
+                              backgroundColor: '#ff9800',
+                              color: 'white',
+                              border: 'none',
+                              padding: '6px 12px',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              fontSize: '13px',
+                              fontWeight: '500',
+                              width: '100%',
+                            }}
+                            onMouseEnter={e => {
+                              (
+                                e.target as HTMLButtonElement
+                              ).style.backgroundColor = '#f57c00';
+                            }}
+                            onMouseLeave={e => {
+                              (
+                                e.target as HTMLButtonElement
+                              ).style.backgroundColor = '#ff9800';
+                            }}
+                          >
+                            Anonymize This
+                          </button>
                         </div>
-                        <button
-                          type="button"
-                          onClick={e => handleAnonymizeClick(d, e)}
-                          style={{
-                            backgroundColor: '#ff9800',
-                            color: 'white',
-                            border: 'none',
-                            padding: '6px 12px',
-                            borderRadius: '4px',
-                            cursor: 'pointer',
-                            fontSize: '13px',
-                            fontWeight: '500',
-                            width: '100%',
-                          }}
-                          onMouseEnter={e => {
-                            (
-                              e.target as HTMLButtonElement
-                            ).style.backgroundColor = '#f57c00';
-                          }}
-                          onMouseLeave={e => {
-                            (
-                              e.target as HTMLButtonElement
-                            ).style.backgroundColor = '#ff9800';
-                          }}
-                        >
-                          Anonymize This
-                        </button>
-                      </div>
-                    ))
+                      );
+                    })
                   ) : (
                     <div
                       style={{
@@ -472,6 +524,27 @@ export function SimpleWarningBadge({
                     </div>
                   )}
 
+                  {lowConfidenceCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setShowLowConfidence(!showLowConfidence)}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: '#666',
+                        cursor: 'pointer',
+                        fontSize: '12px',
+                        textDecoration: 'underline',
+                        width: '100%',
+                        padding: '4px',
+                      }}
+                    >
+                      {showLowConfidence
+                        ? 'Hide low-confidence matches'
+                        : `Show ${lowConfidenceCount} low-confidence match${lowConfidenceCount !== 1 ? 'es' : ''}`}
+                    </button>
+                  )}
+
                   {detections.length > 1 && (
                     <button
                       type="button"
@@ -500,6 +573,36 @@ export function SimpleWarningBadge({
                       Anonymize All ({detections.length})
                     </button>
                   )}
+
+                  {onPseudonymize && detections.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={handlePseudonymizeAll}
+                      title="Swap values for tokens like <EMAIL_1> that can be restored later"
+                      style={{
+                        backgroundColor: '#1976d2',
+                        color: 'white',
+                        border: 'none',
+                        padding: '8px 16px',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: '600',
+                        width: '100%',
+                        marginTop: '8px',
+                      }}
+                      onMouseEnter={e => {
+                        (e.target as HTMLButtonElement).style.backgroundColor =
+                          '#1565c0';
+                      }}
+                      onMouseLeave={e => {
+                        (e.target as HTMLButtonElement).style.backgroundColor =
+                          '#1976d2';
+                      }}
+                    >
+                      Pseudonymize All ({detections.length})
+                    </button>
+                  )}
                 </>
               ) : (
                 <>
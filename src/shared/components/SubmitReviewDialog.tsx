@@ -0,0 +1,185 @@
+// src/shared/components/SubmitReviewDialog.tsx
+import { useEffect } from 'react';
+import { DetectionResult, compareDetections } from '@/shared/pii-detector';
+
+export type FieldDetections = {
+  label: string;
+  detections: DetectionResult[];
+};
+
+// Summary shown when a form or chat message is sent with sensitive data
+// still in one of its fields
+export function SubmitReviewDialog({
+  fields,
+  blocked,
+  onSubmitAnyway,
+  onReview,
+}: {
+  fields: FieldDetections[];
+  // Set when team policy forbids sending any of the detections
+  blocked: boolean;
+  onSubmitAnyway: () => void;
+  onReview: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onReview();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onReview]);
+
+  const total = fields.reduce((sum, f) => sum + f.detections.length, 0);
+
+  const buttonStyle: React.CSSProperties = {
+    border: 'none',
+    padding: '8px 14px',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: '600',
+  };
+
+  return (
+    <div
+      onMouseDown={e => {
+        if (e.target === e.currentTarget) onReview();
+      }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pasteproof-submit-review-title"
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+          padding: '16px',
+          width: '400px',
+          maxWidth: 'calc(100vw - 32px)',
+          color: '#333',
+        }}
+      >
+        <div
+          id="pasteproof-submit-review-title"
+          style={{
+            fontWeight: '600',
+            fontSize: '15px',
+            color: '#d32f2f',
+            marginBottom: '8px',
+          }}
+        >
+          🛡️ {blocked ? 'Sending blocked' : 'Send sensitive data?'}
+        </div>
+        <div style={{ fontSize: '13px', color: '#666', marginBottom: '12px' }}>
+          {total === 1 ? '1 item' : `${total} items`} that may be sensitive{' '}
+          {total === 1 ? 'is' : 'are'} still in{' '}
+          {fields.length === 1 ? 'this field' : `${fields.length} fields`}.
+          {blocked &&
+            ' Your team policy does not allow sending some of this data here.'}
+        </div>
+
+        <div
+          style={{
+            maxHeight: '240px',
+            overflowY: 'auto',
+            marginBottom: '12px',
+          }}
+        >
+          {fields.map((field, idx) => (
+            <div key={idx} style={{ marginBottom: '10px' }}>
+              <div
+                style={{
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  color: '#333',
+                  marginBottom: '4px',
+                }}
+              >
+                {field.label}
+              </div>
+              {[...field.detections].sort(compareDetections).map((d, i) => (
+                <div
+                  key={i}
+                  style={{
+                    display: 'flex',
+                    gap: '8px',
+                    padding: '4px 8px',
+                    marginBottom: '4px',
+                    backgroundColor: '#fff3cd',
+                    border: '1px solid #ffc107',
+                    borderRadius: '4px',
+                    fontSize: '12px',
+                  }}
+                >
+                  <span
+                    style={{
+                      fontWeight: '600',
+                      color: '#ff9800',
+                      textTransform: 'uppercase',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {d.type.replace(/_/g, ' ')}
+                  </span>
+                  <span
+                    style={{
+                      fontFamily: 'monospace',
+                      color: '#666',
+                      wordBreak: 'break-all',
+                    }}
+                  >
+                    {d.value.length > 40 ? `${d.value.slice(0, 40)}…` : d.value}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}
+        >
+          {!blocked && (
+            <button
+              type="button"
+              onClick={onSubmitAnyway}
+              style={{
+                ...buttonStyle,
+                backgroundColor: '#9e9e9e',
+                color: 'white',
+              }}
+            >
+              Send anyway
+            </button>
+          )}
+          <button
+            type="button"
+            autoFocus
+            onClick={onReview}
+            style={{
+              ...buttonStyle,
+              backgroundColor: '#ff9800',
+              color: 'white',
+            }}
+          >
+            Review fields
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// src/shared/components/UndoSnackbar.tsx
+import { useEffect } from 'react';
+
+// Offers to revert the last anonymize action for a short while
+export function UndoSnackbar({
+  message,
+  duration,
+  onUndo,
+  onClose,
+}: {
+  message: string;
+  duration: number;
+  onUndo: () => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const timer = setTimeout(onClose, duration);
+    return () => clearTimeout(timer);
+  }, [onClose, duration]);
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: 'fixed',
+        bottom: '24px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+        backgroundColor: '#323232',
+        color: 'white',
+        borderRadius: '4px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.25)',
+        padding: '10px 16px',
+        zIndex: 2147483647,
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        fontSize: '13px',
+      }}
+    >
+      <span>🛡️ {message}</span>
+      <button
+        type="button"
+        // Keep focus in the field so the undo lands where the user was
+        onMouseDown={e => e.preventDefault()}
+        onClick={onUndo}
+        style={{
+          background: 'none',
+          border: 'none',
+          color: '#ffb74d',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: '600',
+          textTransform: 'uppercase',
+          padding: 0,
+        }}
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
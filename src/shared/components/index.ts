@@ -1 +1,7 @@
-export * from './SimpleWarningBadge'
\ No newline at end of file
+export * from './SimpleWarningBadge';
+export * from './PolicyNotice';
+export * from './PasteReviewDialog';
+export * from './FileReviewDialog';
+export * from './SubmitReviewDialog';
+export * from './UndoSnackbar';
+export * from './PageScanPanel';
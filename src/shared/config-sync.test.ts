@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError, type TeamPolicy } from './api-client';
+import {
+  createEmptyConfig,
+  getActiveTeamPolicy,
+  getSyncedPatterns,
+  syncConfig,
+  type ConfigSyncClient,
+} from './config-sync';
+
+const pattern = (id: string, name = id) => ({
+  id,
+  name,
+  pattern: 'EMP-\\d{6}',
+  pattern_type: 'custom',
+  is_active: true,
+});
+
+const policy = (id: string, enabled: boolean, patterns: any[] = []) =>
+  ({
+    id,
+    team_id: 'team-1',
+    name: id,
+    enabled,
+    policy_data: { patterns },
+    created_at: 0,
+    updated_at: 0,
+  }) as TeamPolicy;
+
+// Serves each resource with a fixed ETag and answers 304 when it matches
+const fakeClient = (
+  data: { patterns?: any[]; policies?: TeamPolicy[]; failing?: boolean } = {}
+) => {
+  const requests: string[] = [];
+  const serve =
+    <T>(key: string, value: T) =>
+    async (etag?: string | null) => {
+      requests.push(key);
+      if (data.failing) throw new Error('offline');
+      return etag === `"${key}"` ? null : { data: value, etag: `"${key}"` };
+    };
+  const client: ConfigSyncClient = {
+    getPatternsIfChanged: serve('patterns', data.patterns ?? []),
+    getWhitelistIfChanged: serve('whitelist', []),
+    getTeamsIfChanged: serve('teams', [
+      { id: 'team-1', name: 'Team', created_at: 0, updated_at: 0 },
+    ]),
+    getTeamPoliciesIfChanged: (_teamId, etag) =>
+      serve('policies', data.policies ?? [])(etag),
+  };
+  return { client, requests };
+};
+
+describe('Config sync', () => {
+  it('should only bump the version when something changed', async () => {
+    const { client } = fakeClient({ patterns: [pattern('p1')] });
+
+    const first = await syncConfig(client, createEmptyConfig(), 1000);
+    expect(first.changed).toBe(true);
+    expect(first.config.version).toBe(1);
+    expect(first.config.etags).toMatchObject({ patterns: '"patterns"' });
+
+    const second = await syncConfig(client, first.config, 2000);
+    expect(second.changed).toBe(false);
+    expect(second.config.version).toBe(1);
+    expect(second.config.syncedAt).toBe(2000);
+    expect(second.config.patterns).toEqual([pattern('p1')]);
+  });
+
+  it('should keep the cached copy when the API is unreachable', async () => {
+    const { config } = await syncConfig(
+      fakeClient({ patterns: [pattern('p1')] }).client,
+      createEmptyConfig()
+    );
+
+    const offline = await syncConfig(
+      fakeClient({ failing: true }).client,
+      config
+    );
+    expect(offline.changed).toBe(false);
+    expect(offline.config.patterns).toEqual([pattern('p1')]);
+    expect(offline.config.teamPolicies['team-1']).toEqual([]);
+  });
+
+  it('should merge team patterns with personal ones winning', async () => {
+    const { config } = await syncConfig(
+      fakeClient({
+        patterns: [pattern('shared', 'Personal')],
+        policies: [
+          policy('on', true, [pattern('shared', 'Team'), pattern('team')]),
+          policy('off', false, [pattern('ignored')]),
+        ],
+      }).client,
+      createEmptyConfig()
+    );
+
+    expect(getSyncedPatterns(config).map(p => p.name)).toEqual([
+      'Personal',
+      'team',
+    ]);
+    expect(getActiveTeamPolicy(config, 'team-1')?.id).toBe('on');
+    expect(getActiveTeamPolicy(config, 'team-2')).toBeNull();
+  });
+
+  it('should treat a server without teams as having none', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, requests } = fakeClient({ patterns: [pattern('p1')] });
+    client.getTeamsIfChanged = async () => {
+      throw new ApiError('Not found', 404);
+    };
+
+    const { config } = await syncConfig(client, createEmptyConfig());
+    expect(config.teams).toEqual([]);
+    expect(config.patterns).toEqual([pattern('p1')]);
+    expect(requests).not.toContain('policies');
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,174 @@
+// src/shared/config-sync.ts
+// The background keeps one copy of the user's patterns, team policies and
+// whitelist in extension storage and refreshes it with conditional requests,
+// so a page load costs no API calls and content scripts can start scanning
+// with the cached config straight away, offline included.
+import {
+  ApiError,
+  type PasteProofApiClient,
+  type Team,
+  type TeamPolicy,
+  type Versioned,
+  type WhitelistSite,
+} from './api-client';
+import type { CustomPattern } from './pii-detector';
+
+export const SYNCED_CONFIG_KEY = 'local:syncedConfig';
+export const SYNC_INTERVAL_MINUTES = 15;
+
+export type SyncedConfig = {
+  // Bumped whenever the content changes
+  version: number;
+  syncedAt: number;
+  patterns: CustomPattern[];
+  teams: Team[];
+  // Team id -> that team's policies
+  teamPolicies: Record<string, TeamPolicy[]>;
+  whitelist: WhitelistSite[];
+  // Resource -> ETag of the cached copy
+  etags: Record<string, string>;
+};
+
+export type ConfigSyncClient = Pick<
+  PasteProofApiClient,
+  | 'getPatternsIfChanged'
+  | 'getWhitelistIfChanged'
+  | 'getTeamsIfChanged'
+  | 'getTeamPoliciesIfChanged'
+>;
+
+export function createEmptyConfig(): SyncedConfig {
+  return {
+    version: 0,
+    syncedAt: 0,
+    patterns: [],
+    teams: [],
+    teamPolicies: {},
+    whitelist: [],
+    etags: {},
+  };
+}
+
+const contentOf = ({
+  patterns,
+  teams,
+  teamPolicies,
+  whitelist,
+}: SyncedConfig) =>
+  JSON.stringify({ patterns, teams, teamPolicies, whitelist });
+
+// Refreshes each resource that changed on the server. A resource that fails
+// to load keeps its cached copy; the next sync tries again.
+export async function syncConfig(
+  client: ConfigSyncClient,
+  cached: SyncedConfig,
+  now = Date.now()
+): Promise<{ config: SyncedConfig; changed: boolean }> {
+  const next: SyncedConfig = {
+    ...cached,
+    teamPolicies: { ...cached.teamPolicies },
+    etags: { ...cached.etags },
+  };
+
+  const refresh = async <T>(
+    key: string,
+    load: (etag: string | null) => Promise<Versioned<T> | null>,
+    apply: (data: T) => void
+  ) => {
+    try {
+      const result = await load(cached.etags[key] ?? null);
+      if (!result) return; // Not modified
+      if (result.etag) next.etags[key] = result.etag;
+      else delete next.etags[key];
+      apply(result.data);
+    } catch (error) {
+      console.warn(`Failed to sync ${key}, keeping the cached copy:`, error);
+    }
+  };
+
+  await Promise.all([
+    refresh(
+      'patterns',
+      etag => client.getPatternsIfChanged(etag),
+      data => (next.patterns = data)
+    ),
+    refresh(
+      'whitelist',
+      etag => client.getWhitelistIfChanged(etag),
+      data => (next.whitelist = data)
+    ),
+    // Servers without teams, like the self-hosted backend, answer 404
+    refresh(
+      'teams',
+      etag =>
+        client.getTeamsIfChanged(etag).catch(error => {
+          if (error instanceof ApiError && error.status === 404) {
+            return { data: [], etag: null };
+          }
+          throw error;
+        }),
+      data => (next.teams = data)
+    ),
+  ]);
+
+  // Policies of teams the user has left are dropped
+  const teamIds = new Set(next.teams.map(team => team.id));
+  for (const teamId of Object.keys(next.teamPolicies)) {
+    if (!teamIds.has(teamId)) {
+      delete next.teamPolicies[teamId];
+      delete next.etags[`policies:${teamId}`];
+    }
+  }
+  await Promise.all(
+    [...teamIds].map(teamId =>
+      refresh(
+        `policies:${teamId}`,
+        etag => client.getTeamPoliciesIfChanged(teamId, etag),
+        data => (next.teamPolicies[teamId] = data)
+      )
+    )
+  );
+
+  const changed = contentOf(next) !== contentOf(cached);
+  return {
+    config: {
+      ...next,
+      version: changed ? cached.version + 1 : cached.version,
+      syncedAt: now,
+    },
+    changed,
+  };
+}
+
+// Personal patterns plus those of every enabled team policy; on a shared
+// id the personal pattern wins
+export function getSyncedPatterns(config: SyncedConfig): CustomPattern[] {
+  const teamPatterns: CustomPattern[] = Object.values(config.teamPolicies)
+    .flat()
+    .filter(policy => policy.enabled)
+    .flatMap(policy => {
+      const patterns =
+        typeof policy.policy_data === 'object'
+          ? policy.policy_data.patterns
+          : undefined;
+      return (Array.isArray(patterns) ? patterns : []).map(pattern => ({
+        id: pattern.id,
+        name: pattern.name,
+        pattern: pattern.pattern,
+        pattern_type: pattern.pattern_type,
+        description: pattern.description || '',
+        is_active: true,
+      }));
+    });
+
+  return Array.from(
+    new Map([...teamPatterns, ...config.patterns].map(p => [p.id, p])).values()
+  );
+}
+
+export function getActiveTeamPolicy(
+  config: SyncedConfig,
+  teamId: string
+): TeamPolicy | null {
+  return config.teamPolicies[teamId]?.find(policy => policy.enabled) ?? null;
+}
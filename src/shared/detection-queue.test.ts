@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_ENTRY_AGE_MS,
+  MAX_QUEUE_ENTRIES,
+  PersistentDetectionQueue,
+  createQueuedDetection,
+  getRetryDelay,
+  selectBatch,
+  selectEvicted,
+  type DetectionStore,
+  type QueuedDetection,
+} from './detection-queue';
+
+const memoryStore = (): DetectionStore & {
+  entries: Map<string, QueuedDetection>;
+} => {
+  const entries = new Map<string, QueuedDetection>();
+  return {
+    entries,
+    getAll: async () => [...entries.values()],
+    put: async list => list.forEach(e => entries.set(e.id, e)),
+    delete: async ids => ids.forEach(id => entries.delete(id)),
+  };
+};
+
+const event = (type: string, now = Date.now()) =>
+  createQueuedDetection(
+    { type, domain: 'example.com', action: 'detected' },
+    now
+  );
+
+describe('Detection queue', () => {
+  it('should back off exponentially up to an hour', () => {
+    const noJitter = () => 0;
+    expect(getRetryDelay(1, noJitter)).toBe(30000);
+    expect(getRetryDelay(2, noJitter)).toBe(60000);
+    expect(getRetryDelay(4, noJitter)).toBe(240000);
+    expect(getRetryDelay(20, noJitter)).toBe(3600000);
+    expect(getRetryDelay(1, () => 1)).toBe(36000);
+  });
+
+  it('should evict old entries and keep the most severe within the cap', () => {
+    const now = Date.now();
+    const old = event('SSN', now - MAX_ENTRY_AGE_MS - 1);
+    const fresh = Array.from({ length: MAX_QUEUE_ENTRIES }, () =>
+      event('EMAIL', now)
+    );
+    const severe = event('API_KEY', now);
+
+    const evicted = selectEvicted([old, ...fresh, severe], now);
+    expect(evicted).toContain(old.id);
+    expect(evicted).not.toContain(severe.id);
+    expect(evicted).toHaveLength(2);
+  });
+
+  it('should send due entries most severe first', () => {
+    const now = Date.now();
+    const later = { ...event('API_KEY', now), nextAttemptAt: now + 1000 };
+    const email = event('EMAIL', now);
+    const card = event('CREDIT_CARD', now);
+
+    expect(selectBatch([later, email, card], now).map(e => e.type)).toEqual([
+      'CREDIT_CARD',
+      'EMAIL',
+    ]);
+  });
+
+  it('should keep failed batches for a retry and drop sent ones', async () => {
+    const store = memoryStore();
+    let fail = true;
+    const sent: string[] = [];
+    const queue = new PersistentDetectionQueue(store, async batch => {
+      if (fail) throw new Error('offline');
+      sent.push(...batch.map(e => e.id));
+    });
+
+    const entry = event('EMAIL');
+    await queue.add(entry);
+    await queue.add(entry);
+    expect(store.entries.size).toBe(1);
+
+    await queue.flush();
+    const retried = store.entries.get(entry.id)!;
+    expect(retried.attempts).toBe(1);
+    expect(retried.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    fail = false;
+    store.entries.set(entry.id, { ...retried, nextAttemptAt: 0 });
+    await queue.flush();
+    expect(sent).toEqual([entry.id]);
+    expect(store.entries.size).toBe(0);
+  });
+});
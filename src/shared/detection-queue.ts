@@ -0,0 +1,211 @@
+// src/shared/detection-queue.ts
+// Durable log of detection events, kept by the background worker. Content
+// scripts send their events over runtime messaging; the queue stores them
+// in IndexedDB, so nothing is lost when a tab closes, the service worker is
+// suspended or the network is down, and sends them in batches with
+// exponential backoff. Each event carries an idempotency key so a batch
+// that reached the server before a failure isn't counted twice.
+import { SEVERITY_RANK, getSeverity, type Severity } from './pii-detector';
+
+export type DetectionAction = 'detected' | 'blocked' | 'anonymized' | 'undone';
+
+export type DetectionEvent = {
+  type: string;
+  domain: string;
+  action: DetectionAction;
+  metadata?: Record<string, unknown>;
+  team_id?: string | null;
+};
+
+export type QueuedDetection = DetectionEvent & {
+  // Idempotency key, set by the background when the event is queued
+  id: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+export const MAX_QUEUE_ENTRIES = 1000;
+export const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+export const BATCH_SIZE = 10;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const DB_NAME = 'pasteproof';
+const DB_VERSION = 1;
+const STORE_NAME = 'detections';
+
+// Where entries are kept. IndexedDB in the extension; tests use a Map.
+export interface DetectionStore {
+  getAll(): Promise<QueuedDetection[]>;
+  put(entries: QueuedDetection[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export function createQueuedDetection(
+  event: DetectionEvent,
+  now = Date.now()
+): QueuedDetection {
+  return {
+    ...event,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+}
+
+// 30s, 1m, 2m, ... up to an hour, with up to 20% jitter so tabs that failed
+// together don't retry together
+export function getRetryDelay(
+  attempts: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+  return Math.round(delay * (1 + random() * 0.2));
+}
+
+const severityOf = (entry: QueuedDetection): Severity => {
+  const severity = entry.metadata?.severity;
+  return typeof severity === 'string' && severity in SEVERITY_RANK
+    ? (severity as Severity)
+    : getSeverity(entry.type);
+};
+
+// Entries past the age cap, then the least severe and oldest beyond the
+// size cap
+export function selectEvicted(
+  entries: QueuedDetection[],
+  now = Date.now()
+): string[] {
+  const expired = entries.filter(e => now - e.createdAt > MAX_ENTRY_AGE_MS);
+  const kept = entries
+    .filter(e => !expired.includes(e))
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[severityOf(b)] - SEVERITY_RANK[severityOf(a)] ||
+        b.createdAt - a.createdAt
+    );
+  return [...expired, ...kept.slice(MAX_QUEUE_ENTRIES)].map(e => e.id);
+}
+
+// The next batch that is due, most severe first
+export function selectBatch(
+  entries: QueuedDetection[],
+  now = Date.now()
+): QueuedDetection[] {
+  return entries
+    .filter(e => e.nextAttemptAt <= now)
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[severityOf(b)] - SEVERITY_RANK[severityOf(a)] ||
+        a.createdAt - b.createdAt
+    )
+    .slice(0, BATCH_SIZE);
+}
+
+export class PersistentDetectionQueue {
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    private readonly store: DetectionStore,
+    // Sends a batch; throws when it didn't reach the server
+    private readonly send: (batch: QueuedDetection[]) => Promise<void>
+  ) {}
+
+  // Adding the same event twice keeps one copy
+  async add(entry: QueuedDetection) {
+    await this.store.put([entry]);
+    await this.prune();
+  }
+
+  // Sends every due batch until one fails. Concurrent calls share a run.
+  flush(): Promise<void> {
+    this.flushing ??= this.run().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async prune() {
+    const evicted = selectEvicted(await this.store.getAll());
+    if (evicted.length > 0) await this.store.delete(evicted);
+  }
+
+  private async run() {
+    await this.prune();
+
+    for (;;) {
+      const now = Date.now();
+      const batch = selectBatch(await this.store.getAll(), now);
+      if (batch.length === 0) return;
+
+      try {
+        await this.send(batch);
+      } catch (error) {
+        console.warn('Failed to send detections, will retry:', error);
+        await this.store.put(
+          batch.map(entry => ({
+            ...entry,
+            attempts: entry.attempts + 1,
+            nextAttemptAt: now + getRetryDelay(entry.attempts + 1),
+          }))
+        );
+        return;
+      }
+      await this.store.delete(batch.map(entry => entry.id));
+    }
+  }
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export function createIndexedDbStore(): DetectionStore {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+    return database;
+  };
+
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const transaction = (await open()).transaction(STORE_NAME, 'readwrite');
+    fn(transaction.objectStore(STORE_NAME));
+    await transactionDone(transaction);
+  };
+
+  return {
+    getAll: async () =>
+      requestResult<QueuedDetection[]>(
+        (await open())
+          .transaction(STORE_NAME, 'readonly')
+          .objectStore(STORE_NAME)
+          .getAll()
+      ),
+    put: entries => write(store => entries.forEach(e => store.put(e))),
+    delete: ids => write(store => ids.forEach(id => store.delete(id))),
+  };
+}
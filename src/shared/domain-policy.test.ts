@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDomainAction,
+  getExplicitDomainAction,
+  matchesDomain,
+  normalizeDomainRules,
+  resolveDomainPolicy,
+} from './domain-policy';
+import { matchesWhitelistPattern } from './whitelist';
+
+describe('Domain policy', () => {
+  it('should match domains, subdomains and wildcards', () => {
+    expect(matchesDomain('chatgpt.com', 'chatgpt.com')).toBe(true);
+    expect(matchesDomain('www.chatgpt.com', 'chatgpt.com')).toBe(true);
+    expect(matchesDomain('notchatgpt.com', 'chatgpt.com')).toBe(false);
+    expect(matchesDomain('a.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+  });
+
+  it('should read domains the same way as whitelist entries', () => {
+    const cases: Array<[string, string, string]> = [
+      ['example.com', 'example.com', '/'],
+      ['example.com', 'www.example.com', '/'],
+      ['example.com', 'app.example.com', '/'],
+      ['*.example.com', 'app.example.com', '/'],
+      ['*.example.com', 'example.com', '/'],
+      ['github.com/our-org/*', 'github.com', '/our-org/repo'],
+      ['github.com/our-org/*', 'github.com', '/other-org'],
+    ];
+    for (const [pattern, hostname, pathname] of cases) {
+      expect(matchesDomain(hostname, pattern, pathname)).toBe(
+        matchesWhitelistPattern(pattern, hostname, pathname)
+      );
+    }
+    // A bare domain is the site itself, not its subdomains
+    expect(matchesDomain('app.example.com', 'example.com')).toBe(false);
+  });
+
+  it('should normalize list and keyed rule formats', () => {
+    expect(
+      normalizeDomainRules([
+        { domain: 'a.com', defaultAction: 'warn', actions: { SSN: 'block' } },
+      ])
+    ).toEqual([
+      { domain: 'a.com', defaultAction: 'warn', actions: { SSN: 'block' } },
+    ]);
+    expect(
+      normalizeDomainRules({ 'b.com': { API_KEY: 'anonymize', '*': 'block' } })
+    ).toEqual([
+      {
+        domain: 'b.com',
+        defaultAction: 'block',
+        actions: { API_KEY: 'anonymize' },
+      },
+    ]);
+    expect(normalizeDomainRules({ 'c.com': { SSN: 'explode' } })).toEqual([
+      { domain: 'c.com', defaultAction: undefined, actions: {} },
+    ]);
+  });
+
+  it('should block everything on blacklisted domains', () => {
+    const policy = resolveDomainPolicy(
+      { domainBlacklist: ['pastebin.com'] },
+      'pastebin.com'
+    );
+    expect(getDomainAction(policy, 'EMAIL', 'warn')).toBe('block');
+  });
+
+  it('should let whitelisted domains only warn', () => {
+    const policy = resolveDomainPolicy(
+      { domainBlacklist: ['corp.com'], domainWhitelist: ['wiki.corp.com'] },
+      'wiki.corp.com'
+    );
+    expect(getDomainAction(policy, 'SSN', 'anonymize')).toBe('warn');
+  });
+
+  it('should apply the most specific domain rule per type', () => {
+    const policy = resolveDomainPolicy(
+      {
+        domainRules: {
+          'openai.com': { '*': 'warn' },
+          'chat.openai.com': { API_KEY: 'block' },
+        },
+      },
+      'chat.openai.com'
+    );
+    expect(getDomainAction(policy, 'API_KEY', 'warn')).toBe('block');
+    // No default on the matching rule, so the template's action applies
+    expect(getDomainAction(policy, 'SSN', 'anonymize')).toBe('anonymize');
+  });
+
+  it('should only report actions a policy sets explicitly', () => {
+    expect(getExplicitDomainAction(null, 'EMAIL', null)).toBeNull();
+    expect(getExplicitDomainAction(null, 'SSN', 'anonymize')).toBe('anonymize');
+
+    const policy = resolveDomainPolicy(
+      { domainRules: { 'chat.openai.com': { API_KEY: 'block' } } },
+      'chat.openai.com'
+    );
+    expect(getExplicitDomainAction(policy, 'API_KEY', null)).toBe('block');
+    expect(getExplicitDomainAction(policy, 'EMAIL', null)).toBeNull();
+
+    const trusted = resolveDomainPolicy(
+      { domainWhitelist: ['wiki.corp.com'] },
+      'wiki.corp.com'
+    );
+    expect(getExplicitDomainAction(trusted, 'SSN', 'block')).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+// src/shared/domain-policy.ts
+// Resolves a team policy's domainBlacklist, domainWhitelist and domainRules
+// for the current site and decides what happens to each detection type.
+import type { PolicyAction } from './compliance-templates';
+import { matchesWhitelistPattern } from './whitelist';
+
+export type DomainRule = {
+  domain: string;
+  // Action for types without an entry in `actions`
+  defaultAction?: PolicyAction;
+  actions?: Partial<Record<string, PolicyAction>>;
+};
+
+export type DomainPolicy = {
+  blacklisted: boolean;
+  whitelisted: boolean;
+  rule: DomainRule | null;
+};
+
+const POLICY_ACTIONS: PolicyAction[] = ['warn', 'block', 'anonymize'];
+
+function isPolicyAction(value: unknown): value is PolicyAction {
+  return POLICY_ACTIONS.includes(value as PolicyAction);
+}
+
+// Domains are written the same way as whitelist entries, so a pattern covers
+// the same pages in both: "example.com" is the site itself (and www.),
+// "*.example.com" any subdomain, "github.com/our-org/*" pages under a path
+export function matchesDomain(
+  hostname: string,
+  pattern: string,
+  pathname = '/'
+): boolean {
+  return matchesWhitelistPattern(pattern, hostname, pathname);
+}
+
+// Accepts either a list of rules or an object keyed by domain, e.g.
+// { "chatgpt.com": { "API_KEY": "block", "*": "warn" } }
+export function normalizeDomainRules(raw: unknown): DomainRule[] {
+  if (!raw || typeof raw !== 'object') return [];
+
+  const entries: Array<[string, unknown]> = Array.isArray(raw)
+    ? raw.map(rule => [rule?.domain, rule])
+    : Object.entries(raw);
+
+  const rules: DomainRule[] = [];
+  for (const [domain, value] of entries) {
+    if (typeof domain !== 'string' || !value || typeof value !== 'object') {
+      continue;
+    }
+
+    const source = value as Record<string, unknown>;
+    const actionMap =
+      source.actions && typeof source.actions === 'object'
+        ? (source.actions as Record<string, unknown>)
+        : source;
+
+    const actions: Partial<Record<string, PolicyAction>> = {};
+    for (const [type, action] of Object.entries(actionMap)) {
+      if (type !== '*' && isPolicyAction(action)) actions[type] = action;
+    }
+
+    const defaultAction = source.defaultAction ?? actionMap['*'];
+    rules.push({
+      domain,
+      defaultAction: isPolicyAction(defaultAction) ? defaultAction : undefined,
+      actions,
+    });
+  }
+  return rules;
+}
+
+export function resolveDomainPolicy(
+  policyData: {
+    domainRules?: unknown;
+    domainBlacklist?: string[];
+    domainWhitelist?: string[];
+  },
+  hostname: string,
+  pathname = '/'
+): DomainPolicy {
+  const matches = (list?: string[]) =>
+    Array.isArray(list) && list.some(d => matchesDomain(hostname, d, pathname));
+
+  // The most specific rule wins when several match
+  const rule =
+    normalizeDomainRules(policyData.domainRules)
+      .filter(r => matchesDomain(hostname, r.domain, pathname))
+      .sort((a, b) => b.domain.length - a.domain.length)[0] ?? null;
+
+  return {
+    blacklisted: matches(policyData.domainBlacklist),
+    whitelisted: matches(policyData.domainWhitelist),
+    rule,
+  };
+}
+
+// Whitelisted domains only ever warn, blacklisted domains block everything,
+// otherwise a domain rule overrides the fallback (the compliance template)
+export function getDomainAction(
+  policy: DomainPolicy | null,
+  type: string,
+  fallback: PolicyAction
+): PolicyAction {
+  if (!policy) return fallback;
+  if (policy.whitelisted) return 'warn';
+  if (policy.blacklisted) return 'block';
+  return policy.rule?.actions?.[type] ?? policy.rule?.defaultAction ?? fallback;
+}
+
+// The action a policy explicitly sets for the type, or null when neither a
+// domain rule nor the template (`templateAction`, null for types it doesn't
+// cover) says anything about it. Whitelisted domains set nothing.
+export function getExplicitDomainAction(
+  policy: DomainPolicy | null,
+  type: string,
+  templateAction: PolicyAction | null
+): PolicyAction | null {
+  if (policy?.whitelisted) return null;
+  if (policy?.blacklisted) return 'block';
+  return (
+    policy?.rule?.actions?.[type] ??
+    policy?.rule?.defaultAction ??
+    templateAction
+  );
+}
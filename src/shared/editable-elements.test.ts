@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  closestContaining,
+  getComposedParent,
+  getComposedTarget,
+  getDeepActiveElement,
+  getEditingHost,
+  isEditableElement,
+  querySelectorAllDeep,
+} from './editable-elements';
+
+const mount = (html: string) => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  document.body.appendChild(root);
+  return root;
+};
+
+describe('Editable elements', () => {
+  it('should treat plaintext-only and empty contenteditable as editable', () => {
+    const root = mount(
+      '<div id="a" contenteditable="plaintext-only"></div><div id="b" contenteditable></div><div id="c" contenteditable="false"></div>'
+    );
+    expect(isEditableElement(root.querySelector('#a')!)).toBe(true);
+    expect(isEditableElement(root.querySelector('#b')!)).toBe(true);
+    expect(isEditableElement(root.querySelector('#c')!)).toBe(false);
+  });
+
+  it('should inherit editability and resolve the editing host', () => {
+    const root = mount(
+      '<div id="host" contenteditable="true"><p><b id="inner">x</b></p><span id="off" contenteditable="false">y</span></div>'
+    );
+    const host = root.querySelector('#host')!;
+    const inner = root.querySelector('#inner')!;
+    expect(isEditableElement(inner)).toBe(true);
+    expect(getEditingHost(inner)).toBe(host);
+    expect(getEditingHost(host)).toBe(host);
+    expect(getEditingHost(root.querySelector('#off')!)).toBeNull();
+  });
+
+  it('should find fields inside nested open shadow roots', () => {
+    const root = mount('<input id="light"><my-widget></my-widget>');
+    const outer = root
+      .querySelector('my-widget')!
+      .attachShadow({ mode: 'open' });
+    outer.innerHTML =
+      '<textarea id="outer"></textarea><inner-widget></inner-widget>';
+    const inner = outer
+      .querySelector('inner-widget')!
+      .attachShadow({ mode: 'open' });
+    inner.innerHTML = '<div id="deep" contenteditable="plaintext-only"></div>';
+
+    const ids = querySelectorAllDeep(root, 'input, textarea, [contenteditable]')
+      .map(element => element.id)
+      .sort();
+    expect(ids).toEqual(['deep', 'light', 'outer']);
+
+    const deep = inner.querySelector('#deep')!;
+    expect(getComposedParent(deep)).toBe(outer.querySelector('inner-widget'));
+  });
+
+  it('should see through shadow roots for event targets and focus', () => {
+    const root = mount('<my-field></my-field>');
+    const shadow = root.querySelector('my-field')!.attachShadow({
+      mode: 'open',
+    });
+    shadow.innerHTML = '<input id="inner">';
+    const input = shadow.querySelector('input')!;
+
+    let target: EventTarget | null = null;
+    const listener = (event: Event) => {
+      target = getComposedTarget(event);
+    };
+    document.addEventListener('focusin', listener);
+    input.focus();
+    document.removeEventListener('focusin', listener);
+
+    expect(target).toBe(input);
+    expect(document.activeElement).toBe(root.querySelector('my-field'));
+    expect(getDeepActiveElement()).toBe(input);
+  });
+
+  it('should find the nearest ancestor holding a match', () => {
+    const root = mount(
+      '<div id="page"><textarea id="other"></textarea><div id="composer"><div><textarea id="field"></textarea></div><button id="send">Send</button></div></div>'
+    );
+    const field = root.querySelector('#field')!;
+    const send = root.querySelector('#send')!;
+
+    expect(closestContaining(field, 'button')?.id).toBe('composer');
+    expect(closestContaining(send, 'textarea')?.id).toBe('composer');
+    expect(closestContaining(send, 'select')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+// src/shared/editable-elements.ts
+// Finding the fields a user types into, wherever they live: inside open
+// shadow roots (web components, Salesforce/Lit style UIs), in editable
+// regions that inherit `contenteditable` from an ancestor, and in
+// `contenteditable="plaintext-only"` editors.
+
+// Candidates for isValidInput; inherited editability is resolved separately
+export const EDITABLE_SELECTOR =
+  'input, textarea, [contenteditable]:not([contenteditable="false"])';
+
+// The element's own contenteditable state: true, false, or null when it
+// inherits from its parent. Empty string and "plaintext-only" both make an
+// element editable; unknown values inherit, as browsers treat them.
+function ownEditableState(element: Element): boolean | null {
+  const value = element.getAttribute('contenteditable');
+  if (value === null) return null;
+  switch (value.toLowerCase()) {
+    case '':
+    case 'true':
+    case 'plaintext-only':
+      return true;
+    case 'false':
+      return false;
+    default:
+      return null;
+  }
+}
+
+// isContentEditable, resolved from the attributes. jsdom and detached
+// trees don't implement the property, so it isn't relied on.
+export function isEditableElement(element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    const state = ownEditableState(current);
+    if (state !== null) return state;
+    current = current.parentElement;
+  }
+  return element.ownerDocument.designMode === 'on';
+}
+
+// The outermost editable ancestor: the element that receives focus and
+// holds the editor's whole text. Null for elements that aren't editable.
+export function getEditingHost(element: Element): HTMLElement | null {
+  if (!isEditableElement(element)) return null;
+
+  let host: Element = element;
+  while (host.parentElement && isEditableElement(host.parentElement)) {
+    host = host.parentElement;
+  }
+  return host as HTMLElement;
+}
+
+// The element an event really started on. Events leaving a shadow root are
+// retargeted to its host; composedPath() still has the inner element for
+// open roots.
+export function getComposedTarget(event: Event): EventTarget | null {
+  const path =
+    typeof event.composedPath === 'function' ? event.composedPath() : [];
+  return path[0] ?? event.target;
+}
+
+// document.activeElement stops at shadow hosts; follow them down
+export function getDeepActiveElement(
+  root: Document | ShadowRoot = document
+): Element | null {
+  let active = root.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+}
+
+// Parent element, stepping out of a shadow root to its host
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement;
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+// Nearest ancestor of `element`, crossing shadow roots, with a descendant
+// matching `selector`. Used to find a chat composer: the smallest element
+// around a message field that also holds its send button, or the reverse.
+export function closestContaining(
+  element: Element,
+  selector: string
+): Element | null {
+  for (
+    let node = getComposedParent(element);
+    node;
+    node = getComposedParent(node)
+  ) {
+    if (
+      node.querySelector(selector) ||
+      node.shadowRoot?.querySelector(selector)
+    ) {
+      return node;
+    }
+  }
+  return null;
+}
+
+// querySelectorAll that also searches every open shadow root below `root`
+export function querySelectorAllDeep<T extends Element = Element>(
+  root: ParentNode,
+  selector: string
+): T[] {
+  const results = Array.from(root.querySelectorAll<T>(selector));
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot) {
+      results.push(...querySelectorAllDeep<T>(element.shadowRoot, selector));
+    }
+  });
+  return results;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { detectPii } from './pii-detector';
+import { MAX_FILE_SCAN_BYTES, isTextFile, scanFiles } from './file-scan';
+
+describe('File scan', () => {
+  it('should recognise text-like files by name or type', () => {
+    expect(isTextFile({ name: '.env', type: '' })).toBe(true);
+    expect(isTextFile({ name: '.env.production', type: '' })).toBe(true);
+    expect(isTextFile({ name: 'server.PEM', type: '' })).toBe(true);
+    expect(isTextFile({ name: 'export', type: 'text/csv' })).toBe(true);
+    expect(isTextFile({ name: 'photo.png', type: 'image/png' })).toBe(false);
+  });
+
+  it('should scan text files and list others as not scanned', async () => {
+    const results = await scanFiles(
+      [
+        new File(['name,email\nJane,jane@corp.com'], 'users.csv'),
+        new File([new Uint8Array([137, 80, 78, 71])], 'logo.png', {
+          type: 'image/png',
+        }),
+        new File(['x'.repeat(MAX_FILE_SCAN_BYTES + 1)], 'huge.txt'),
+      ],
+      detectPii
+    );
+
+    expect(results[0].scanned).toBe(true);
+    expect(results[0].detections.map(d => d.type)).toContain('EMAIL');
+    expect(results[1]).toMatchObject({ scanned: false, reason: 'binary' });
+    expect(results[2]).toMatchObject({ scanned: false, reason: 'too_large' });
+  });
+});
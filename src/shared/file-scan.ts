@@ -0,0 +1,82 @@
+// src/shared/file-scan.ts
+// Scans files dropped on a page or picked in an <input type="file"> before
+// the site gets them. Text-like files are read locally and run through the
+// detector; anything else is reported as not scanned rather than guessed at.
+import type { DetectionResult } from './pii-detector';
+
+// Larger files are reported as not scanned; reading them blocks the upload
+export const MAX_FILE_SCAN_BYTES = 1024 * 1024;
+
+const TEXT_EXTENSIONS = [
+  '.txt',
+  '.csv',
+  '.tsv',
+  '.env',
+  '.json',
+  '.pem',
+  '.key',
+  '.log',
+  '.md',
+  '.yaml',
+  '.yml',
+];
+
+const TEXT_MIME_TYPES = ['application/json', 'application/x-pem-file'];
+
+export type FileScanResult = {
+  name: string;
+  scanned: boolean;
+  // Why a file wasn't scanned
+  reason?: 'binary' | 'too_large' | 'unreadable';
+  detections: DetectionResult[];
+};
+
+// By extension first, since .env and .pem files usually have no MIME type.
+// Dotfiles like .env.local count as .env.
+export function isTextFile(file: { name: string; type: string }): boolean {
+  const name = file.name.toLowerCase();
+  if (name === '.env' || name.startsWith('.env.')) return true;
+  if (TEXT_EXTENSIONS.some(extension => name.endsWith(extension))) {
+    return true;
+  }
+  return file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type);
+}
+
+// FileReader rather than file.text(), which older engines lack
+function readAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+export async function scanFile(
+  file: File,
+  detect: (text: string) => DetectionResult[]
+): Promise<FileScanResult> {
+  const result: FileScanResult = {
+    name: file.name,
+    scanned: false,
+    detections: [],
+  };
+  if (!isTextFile(file)) return { ...result, reason: 'binary' };
+  if (file.size > MAX_FILE_SCAN_BYTES) {
+    return { ...result, reason: 'too_large' };
+  }
+
+  try {
+    const text = await readAsText(file);
+    return { ...result, scanned: true, detections: detect(text) };
+  } catch {
+    return { ...result, reason: 'unreadable' };
+  }
+}
+
+export function scanFiles(
+  files: File[],
+  detect: (text: string) => DetectionResult[]
+): Promise<FileScanResult[]> {
+  return Promise.all(files.map(file => scanFile(file, detect)));
+}
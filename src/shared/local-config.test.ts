@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import type { WhitelistSite } from './api-client';
+import {
+  compareWhitelistEntry,
+  createLocalPattern,
+  createLocalWhitelistEntry,
+  mergeLocalConfig,
+  removeLocalItems,
+  replaceServerCopy,
+  type ConflictClient,
+  type LocalMergeClient,
+} from './local-config';
+import type { CustomPattern } from './pii-detector';
+
+const site = (domain: string, extra: Partial<WhitelistSite> = {}) => ({
+  id: domain,
+  user_id: 'user',
+  domain,
+  is_active: 1,
+  created_at: 0,
+  ...extra,
+});
+
+const serverPattern = (name: string, pattern: string): CustomPattern => ({
+  id: name,
+  name,
+  pattern,
+  pattern_type: 'CUSTOM',
+  is_active: true,
+});
+
+describe('Local config', () => {
+  it('should validate and normalize new items', () => {
+    expect(createLocalWhitelistEntry('https://www.Example.com/').domain).toBe(
+      'example.com'
+    );
+    expect(
+      createLocalWhitelistEntry('example.com', 'pii_types', [' email', 'EMAIL'])
+        .pii_types
+    ).toEqual(['EMAIL']);
+    expect(() => createLocalWhitelistEntry('not a domain')).toThrow(
+      'Invalid domain format'
+    );
+    expect(() => createLocalWhitelistEntry('example.com', 'pii_types')).toThrow(
+      'Choose at least one PII type'
+    );
+    expect(() =>
+      createLocalPattern({ name: 'Employee ID', pattern: 'EMP-(' })
+    ).toThrow('Invalid regex pattern');
+  });
+
+  it('should tell new, duplicate and conflicting whitelist entries apart', () => {
+    const server = [
+      site('example.com'),
+      site('app.com', { scope: 'pii_types', pii_types: ['EMAIL'] }),
+    ];
+    const entry = (domain: string, scope?: any, types?: string[]) =>
+      createLocalWhitelistEntry(domain, scope, types);
+
+    expect(compareWhitelistEntry(entry('example.com'), server)).toBe(
+      'duplicate'
+    );
+    expect(compareWhitelistEntry(entry('example.com', 'ai'), server)).toBe(
+      'new'
+    );
+    expect(
+      compareWhitelistEntry(entry('app.com', 'pii_types', ['EMAIL']), server)
+    ).toBe('duplicate');
+    expect(
+      compareWhitelistEntry(entry('app.com', 'pii_types', ['PHONE']), server)
+    ).toBe('conflict');
+  });
+
+  it('should upload new items and keep conflicts on the device', async () => {
+    const uploaded: string[] = [];
+    const client: LocalMergeClient = {
+      getWhitelist: async () => [site('example.com')],
+      getPatterns: async () => [serverPattern('Employee ID', 'EMP-\\d+')],
+      addToWhitelist: async domain => {
+        uploaded.push(domain);
+        return site(domain);
+      },
+      createPattern: async pattern => {
+        uploaded.push(pattern.name);
+        return serverPattern(pattern.name, pattern.pattern);
+      },
+    };
+
+    const local = {
+      whitelist: [
+        createLocalWhitelistEntry('example.com'),
+        createLocalWhitelistEntry('*.internal.dev'),
+      ],
+      patterns: [
+        createLocalPattern({ name: 'employee id', pattern: 'EMP-\\d{6}' }),
+        createLocalPattern({ name: 'Ticket', pattern: 'TCK-\\d+' }),
+      ],
+    };
+
+    const resolved = await mergeLocalConfig(client, local);
+    expect(uploaded).toEqual(['*.internal.dev', 'Ticket']);
+
+    const remaining = removeLocalItems(local, resolved);
+    expect(remaining.whitelist).toEqual([]);
+    expect(remaining.patterns.map(p => p.name)).toEqual(['employee id']);
+  });
+
+  it("should keep the account's version when the replacement fails to upload", async () => {
+    let whitelist = [
+      site('example.com', {
+        id: 'server-entry',
+        scope: 'pii_types',
+        pii_types: ['EMAIL'],
+      }),
+    ];
+    let patterns = [serverPattern('Employee ID', 'EMP-\\d+')];
+    let uploads = 0;
+    const client: ConflictClient = {
+      getWhitelist: async () => whitelist,
+      getPatterns: async () => patterns,
+      removeFromWhitelist: async id => {
+        whitelist = whitelist.filter(rule => rule.id !== id);
+      },
+      // The replacement is refused; putting the old entry back works
+      addToWhitelist: async (domain, options) => {
+        if (uploads++ === 0) throw new Error('Server error');
+        const rule = site(domain, { id: 'restored', ...options });
+        whitelist = [...whitelist, rule];
+        return rule;
+      },
+      createPattern: async () => {
+        throw new Error('Server error');
+      },
+      deletePattern: async id => {
+        patterns = patterns.filter(p => p.id !== id);
+      },
+    };
+
+    const entry = createLocalWhitelistEntry('example.com', 'pii_types', [
+      'PHONE',
+    ]);
+    await expect(
+      replaceServerCopy(client, { kind: 'whitelist', entry })
+    ).rejects.toThrow('Server error');
+    expect(whitelist.map(rule => rule.pii_types)).toEqual([['EMAIL']]);
+
+    const pattern = createLocalPattern({
+      name: 'Employee ID',
+      pattern: 'EMP-\\d{6}',
+    });
+    await expect(
+      replaceServerCopy(client, { kind: 'pattern', pattern })
+    ).rejects.toThrow('Server error');
+    expect(patterns.map(p => p.pattern)).toEqual(['EMP-\\d+']);
+  });
+});
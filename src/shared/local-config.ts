@@ -0,0 +1,260 @@
+// src/shared/local-config.ts
+// Whitelist entries and custom patterns kept on this device, so both work
+// without an account. Once the user signs in the background uploads them;
+// items the account already has are dropped, and items that clash with the
+// account's version stay here until the user picks one in the popup.
+import type { PasteProofApiClient, WhitelistSite } from './api-client';
+import type { CustomPattern } from './pii-detector';
+import {
+  normalizeWhitelistPattern,
+  type WhitelistRule,
+  type WhitelistScope,
+} from './whitelist';
+
+export const LOCAL_WHITELIST_KEY = 'local:localWhitelist';
+export const LOCAL_PATTERNS_KEY = 'local:localPatterns';
+
+export type LocalWhitelistEntry = WhitelistRule & {
+  id: string;
+  scope: WhitelistScope;
+  created_at: number;
+};
+
+export type LocalPattern = CustomPattern & {
+  created_at: number;
+};
+
+export type LocalConfig = {
+  whitelist: LocalWhitelistEntry[];
+  patterns: LocalPattern[];
+};
+
+// How a local item compares with the account's copy
+export type MergeStatus = 'new' | 'duplicate' | 'conflict';
+
+// A local item the user chose to keep over the account's version
+export type LocalConflict =
+  | { kind: 'whitelist'; entry: LocalWhitelistEntry }
+  | { kind: 'pattern'; pattern: LocalPattern };
+
+export type LocalMergeClient = Pick<
+  PasteProofApiClient,
+  'getWhitelist' | 'getPatterns' | 'addToWhitelist' | 'createPattern'
+>;
+
+export type ConflictClient = Pick<
+  PasteProofApiClient,
+  | 'getWhitelist'
+  | 'getPatterns'
+  | 'addToWhitelist'
+  | 'createPattern'
+  | 'removeFromWhitelist'
+  | 'deletePattern'
+>;
+
+export function createLocalWhitelistEntry(
+  domain: string,
+  scope: WhitelistScope = 'all',
+  piiTypes: string[] = [],
+  now = Date.now()
+): LocalWhitelistEntry {
+  const pattern = normalizeWhitelistPattern(domain);
+  if (!pattern) {
+    throw new Error('Invalid domain format');
+  }
+
+  const types = [
+    ...new Set(piiTypes.map(type => type.trim().toUpperCase()).filter(Boolean)),
+  ];
+  if (scope === 'pii_types' && types.length === 0) {
+    throw new Error('Choose at least one PII type');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    domain: pattern,
+    scope,
+    ...(scope === 'pii_types' ? { pii_types: types } : {}),
+    created_at: now,
+  };
+}
+
+export function createLocalPattern(
+  pattern: {
+    name: string;
+    pattern: string;
+    pattern_type?: string;
+    description?: string;
+  },
+  now = Date.now()
+): LocalPattern {
+  const name = pattern.name.trim();
+  if (!name) {
+    throw new Error('Pattern name is required');
+  }
+  try {
+    new RegExp(pattern.pattern);
+  } catch {
+    throw new Error('Invalid regex pattern');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    pattern: pattern.pattern,
+    pattern_type: pattern.pattern_type || 'CUSTOM',
+    description: pattern.description,
+    is_active: true,
+    created_at: now,
+  };
+}
+
+const sameTypes = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every(type => b.includes(type));
+
+// Entries are the same when pattern and scope are; two PII-type entries for
+// one pattern with different types clash, since the server keeps one
+export function compareWhitelistEntry(
+  entry: LocalWhitelistEntry,
+  server: WhitelistRule[]
+): MergeStatus {
+  const matches = server.filter(
+    rule =>
+      rule.domain === entry.domain && (rule.scope ?? 'all') === entry.scope
+  );
+  if (matches.length === 0) return 'new';
+  if (entry.scope !== 'pii_types') return 'duplicate';
+  return matches.some(rule => sameTypes(rule.pii_types, entry.pii_types))
+    ? 'duplicate'
+    : 'conflict';
+}
+
+// Patterns are matched by name; the same name with another regex clashes
+export function comparePattern(
+  pattern: LocalPattern,
+  server: CustomPattern[]
+): MergeStatus {
+  const name = pattern.name.toLowerCase();
+  const match = server.find(p => p.name.trim().toLowerCase() === name);
+  if (!match) return 'new';
+  return match.pattern === pattern.pattern &&
+    match.pattern_type === pattern.pattern_type
+    ? 'duplicate'
+    : 'conflict';
+}
+
+// Uploads the items the account doesn't have yet. Returns the ids of items
+// that no longer need keeping here; conflicts and failed uploads stay.
+export async function mergeLocalConfig(
+  client: LocalMergeClient,
+  local: LocalConfig
+): Promise<string[]> {
+  const [whitelist, patterns] = await Promise.all([
+    client.getWhitelist(),
+    client.getPatterns(),
+  ]);
+  const resolved: string[] = [];
+
+  for (const entry of local.whitelist) {
+    const status = compareWhitelistEntry(entry, whitelist);
+    if (status === 'conflict') continue;
+    try {
+      if (status === 'new') {
+        await client.addToWhitelist(entry.domain, {
+          scope: entry.scope,
+          pii_types: entry.pii_types,
+        });
+      }
+      resolved.push(entry.id);
+    } catch (error) {
+      console.warn('Failed to upload whitelist entry, will retry:', error);
+    }
+  }
+
+  for (const pattern of local.patterns) {
+    const status = comparePattern(pattern, patterns);
+    if (status === 'conflict') continue;
+    try {
+      if (status === 'new') {
+        await client.createPattern({
+          name: pattern.name,
+          pattern: pattern.pattern,
+          pattern_type: pattern.pattern_type,
+          description: pattern.description,
+        });
+      }
+      resolved.push(pattern.id);
+    } catch (error) {
+      console.warn('Failed to upload pattern, will retry:', error);
+    }
+  }
+
+  return resolved;
+}
+
+export function removeLocalItems(
+  local: LocalConfig,
+  ids: readonly string[]
+): LocalConfig {
+  return {
+    whitelist: local.whitelist.filter(entry => !ids.includes(entry.id)),
+    patterns: local.patterns.filter(pattern => !ids.includes(pattern.id)),
+  };
+}
+
+// Settles a conflict in favour of this device: the local version is
+// uploaded and the account's clashing one removed. Patterns are created
+// before the old ones are deleted. The server refuses a second whitelist
+// entry with the same pattern and scope, so those are deleted first and put
+// back if the upload fails.
+export async function replaceServerCopy(
+  client: ConflictClient,
+  item: LocalConflict
+): Promise<void> {
+  if (item.kind === 'whitelist') {
+    const { entry } = item;
+    const clashing = (await client.getWhitelist()).filter(
+      rule =>
+        rule.domain === entry.domain && (rule.scope ?? 'all') === entry.scope
+    );
+    const removed: WhitelistSite[] = [];
+    try {
+      for (const rule of clashing) {
+        await client.removeFromWhitelist(rule.id);
+        removed.push(rule);
+      }
+      await client.addToWhitelist(entry.domain, {
+        scope: entry.scope,
+        pii_types: entry.pii_types,
+      });
+    } catch (error) {
+      for (const rule of removed) {
+        await client
+          .addToWhitelist(rule.domain, {
+            scope: rule.scope,
+            pii_types: rule.pii_types,
+          })
+          .catch(restoreError =>
+            console.error('Failed to restore whitelist entry:', restoreError)
+          );
+      }
+      throw error;
+    }
+    return;
+  }
+
+  const { pattern } = item;
+  const name = pattern.name.toLowerCase();
+  const clashing = (await client.getPatterns()).filter(
+    p => p.name.trim().toLowerCase() === name
+  );
+  await client.createPattern({
+    name: pattern.name,
+    pattern: pattern.pattern,
+    pattern_type: pattern.pattern_type,
+    description: pattern.description,
+  });
+  for (const p of clashing) {
+    await client.deletePattern(p.id);
+  }
+}
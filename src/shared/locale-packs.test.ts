@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { detectPii, PiiType, setActiveLocales } from './pii-detector';
+import { DEFAULT_LOCALES, getLocalePatterns } from './locale-packs';
+
+describe('Locale packs', () => {
+  it('should only run the packs for the requested locales', () => {
+    const text = 'Aadhaar 2345 6789 0124';
+    expect(detectPii(text, { locales: ['US'] })).toHaveLength(0);
+    const results = detectPii(text, { locales: ['IN'] });
+    expect(results.map(r => r.type)).toEqual([PiiType.InAadhaar]);
+  });
+
+  it('should use the locales set with setActiveLocales', () => {
+    const text = 'CPF 529.982.247-25';
+    setActiveLocales(['BR']);
+    expect(detectPii(text).map(r => r.type)).toEqual([PiiType.BrCpf]);
+    setActiveLocales(DEFAULT_LOCALES);
+    expect(detectPii(text)).toHaveLength(0);
+  });
+
+  it('should ignore unknown locales', () => {
+    setActiveLocales(['XX', 'CA']);
+    expect(detectPii('SIN 130 456 783').map(r => r.type)).toEqual([
+      PiiType.CaSin,
+    ]);
+    setActiveLocales(DEFAULT_LOCALES);
+    expect(getLocalePatterns([])).toHaveLength(0);
+  });
+
+  it('should detect international phone numbers', () => {
+    const results = detectPii('call me on +44 20 7946 0958', {
+      locales: ['INTL'],
+    });
+    expect(results.map(r => r.value)).toEqual(['+44 20 7946 0958']);
+    expect(results[0].type).toBe(PiiType.PhoneNumber);
+  });
+
+  it('should detect street addresses and postcodes', () => {
+    const text = 'Ship to 221 Baker Street, London NW1 6XE';
+    const results = detectPii(text, { locales: ['US', 'GB'] });
+    expect(results.map(r => r.value)).toEqual(['221 Baker Street', 'NW1 6XE']);
+  });
+
+  it('should detect EU national IDs', () => {
+    const results = detectPii('DNI 12345678Z, BSN 111222333', {
+      locales: ['EU'],
+    });
+    expect(results.map(r => r.type)).toEqual([
+      PiiType.EuNationalId,
+      PiiType.EuNationalId,
+    ]);
+  });
+});
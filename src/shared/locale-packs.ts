@@ -0,0 +1,200 @@
+// src/shared/locale-packs.ts
+// Region-specific patterns for phone numbers, postal addresses and national
+// identifiers. Only the packs for the active locales are added to the
+// built-in patterns, so a team can switch on the regions it works in
+// without paying for false positives from the rest.
+import type { PatternDefinition } from './pii-detector';
+import {
+  aadhaarCheck,
+  bsnCheck,
+  cpfCheck,
+  dniCheck,
+  e164Check,
+  nirCheck,
+  panCheck,
+  peselCheck,
+  sinCheck,
+  tfnCheck,
+} from './validators';
+
+export type Locale = 'INTL' | 'US' | 'GB' | 'EU' | 'CA' | 'AU' | 'IN' | 'BR';
+
+export const LOCALES: Locale[] = [
+  'INTL',
+  'US',
+  'GB',
+  'EU',
+  'CA',
+  'AU',
+  'IN',
+  'BR',
+];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  INTL: 'International phone numbers',
+  US: 'United States',
+  GB: 'United Kingdom',
+  EU: 'European Union',
+  CA: 'Canada',
+  AU: 'Australia',
+  IN: 'India',
+  BR: 'Brazil',
+};
+
+// Used until the user picks locales in the popup
+export const DEFAULT_LOCALES: Locale[] = ['INTL', 'US'];
+
+const ADDRESS_KEYWORDS = [
+  'address',
+  'street',
+  'lives',
+  'ship',
+  'mail',
+  'deliver',
+  'home',
+];
+
+export const LOCALE_PACKS: Record<Locale, PatternDefinition[]> = {
+  INTL: [
+    // +44 20 7946 0958, +49 (30) 901820, +91-98765-43210
+    {
+      type: 'PHONE',
+      confidence: 0.7,
+      keywords: ['phone', 'call', 'tel', 'mobile', 'whatsapp', 'contact'],
+      skipOverlapping: true,
+      regex: /(?<![\w+])\+[1-9]\d{0,2}(?:[\s.-]?\(?\d{1,5}\)?){2,5}(?!\w)/g,
+      validate: e164Check,
+    },
+  ],
+  US: [
+    // 1600 Pennsylvania Avenue, 42 Main St.
+    {
+      type: 'ADDRESS',
+      confidence: 0.6,
+      keywords: ADDRESS_KEYWORDS,
+      regex:
+        /\b\d{1,6}\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?/g,
+    },
+  ],
+  GB: [
+    // Postcodes: SW1A 1AA, M1 1AE
+    {
+      type: 'ADDRESS',
+      confidence: 0.55,
+      keywords: [...ADDRESS_KEYWORDS, 'postcode'],
+      keywordPenalty: 0.1,
+      regex: /\b[A-Z]{1,2}\d[A-Z\d]?\s\d[ABD-HJLNP-UW-Z]{2}\b/g,
+    },
+  ],
+  EU: [
+    // Spanish DNI and NIE
+    {
+      type: 'EU_NATIONAL_ID',
+      confidence: 0.7,
+      keywords: ['dni', 'nie', 'documento', 'identidad'],
+      regex: /\b[XYZ]?\d{7,8}-?[A-Z]\b/g,
+      validate: dniCheck,
+    },
+    // French NIR: 1 85 05 78 006 084 36
+    {
+      type: 'EU_NATIONAL_ID',
+      confidence: 0.7,
+      keywords: ['nir', 'insee', 'securite sociale', 'social security'],
+      regex:
+        /\b[12]\s?\d{2}\s?\d{2}\s?(?:\d{2}|2A|2B)\s?\d{3}\s?\d{3}\s?\d{2}\b/g,
+      validate: nirCheck,
+    },
+    // Dutch BSN and Polish PESEL are plain digit runs, so they need a
+    // keyword nearby
+    {
+      type: 'EU_NATIONAL_ID',
+      confidence: 0.5,
+      keywords: ['bsn', 'burgerservicenummer', 'sofinummer'],
+      keywordPenalty: 0.3,
+      skipOverlapping: true,
+      regex: /\b\d{9}\b/g,
+      validate: bsnCheck,
+    },
+    {
+      type: 'EU_NATIONAL_ID',
+      confidence: 0.5,
+      keywords: ['pesel'],
+      keywordPenalty: 0.3,
+      skipOverlapping: true,
+      regex: /\b\d{11}\b/g,
+      validate: peselCheck,
+    },
+  ],
+  CA: [
+    {
+      type: 'CA_SIN',
+      confidence: 0.6,
+      keywords: ['sin', 'social insurance'],
+      keywordPenalty: 0.1,
+      skipOverlapping: true,
+      regex: /\b\d{3}[-\s]\d{3}[-\s]\d{3}\b/g,
+      validate: sinCheck,
+    },
+    // Postal codes: K1A 0B1
+    {
+      type: 'ADDRESS',
+      confidence: 0.55,
+      keywords: [...ADDRESS_KEYWORDS, 'postal code'],
+      keywordPenalty: 0.1,
+      regex:
+        /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z][ -]?\d[ABCEGHJ-NPRSTV-Z]\d\b/g,
+    },
+  ],
+  AU: [
+    {
+      type: 'AU_TFN',
+      confidence: 0.6,
+      keywords: ['tfn', 'tax file'],
+      keywordPenalty: 0.1,
+      skipOverlapping: true,
+      regex: /\b\d{3}[\s-]\d{3}[\s-]\d{3}\b/g,
+      validate: tfnCheck,
+    },
+  ],
+  IN: [
+    {
+      type: 'IN_AADHAAR',
+      confidence: 0.7,
+      keywords: ['aadhaar', 'aadhar', 'uidai'],
+      keywordPenalty: 0.2,
+      skipOverlapping: true,
+      regex: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+      validate: aadhaarCheck,
+    },
+    {
+      type: 'IN_PAN',
+      confidence: 0.75,
+      keywords: ['pan', 'income tax', 'permanent account'],
+      regex: /\b[A-Z]{5}\d{4}[A-Z]\b/g,
+      validate: panCheck,
+    },
+  ],
+  BR: [
+    // 123.456.789-09 or the bare 11 digits
+    {
+      type: 'BR_CPF',
+      confidence: 0.7,
+      keywords: ['cpf', 'cadastro'],
+      keywordPenalty: 0.2,
+      skipOverlapping: true,
+      regex: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g,
+      validate: cpfCheck,
+    },
+  ],
+};
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as string[]).includes(value);
+}
+
+// Patterns for the given locales, in the order the locales are listed
+export function getLocalePatterns(
+  locales: readonly Locale[]
+): PatternDefinition[] {
+  return locales.flatMap(locale => LOCALE_PACKS[locale] ?? []);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectPii } from './pii-detector';
+import { PAGE_SCAN_IGNORE_ATTRIBUTE, scanVisibleText } from './page-scan';
+
+describe('Page scan', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should find values across nodes and keep their ranges', () => {
+    document.body.innerHTML =
+      '<p>Contact <b>jane.doe</b>@example.com today</p>';
+    const { matches, truncated } = scanVisibleText(document.body, detectPii);
+
+    expect(truncated).toBe(false);
+    const email = matches.find(m => m.detection.type === 'EMAIL')!;
+    expect(email.range.toString()).toBe('jane.doe@example.com');
+  });
+
+  it('should skip hidden text, form fields and PasteProof UI', () => {
+    document.body.innerHTML = `
+      <p>visible@example.com</p>
+      <div style="display: none">hidden@example.com</div>
+      <p hidden>attr@example.com</p>
+      <textarea>field@example.com</textarea>
+      <div ${PAGE_SCAN_IGNORE_ATTRIBUTE}>badge@example.com</div>`;
+    const values = scanVisibleText(document.body, detectPii).matches.map(
+      m => m.detection.value
+    );
+
+    expect(values).toEqual(['visible@example.com']);
+  });
+
+  it('should only keep matches inside the selection', () => {
+    document.body.innerHTML =
+      '<p id="a">first@example.com</p><p id="b">second@example.com</p>';
+    const range = document.createRange();
+    range.selectNodeContents(document.getElementById('b')!);
+
+    const values = scanVisibleText(
+      range.commonAncestorContainer,
+      detectPii,
+      range
+    ).matches.map(m => m.detection.value);
+
+    expect(values).toEqual(['second@example.com']);
+  });
+});
@@ -0,0 +1,136 @@
+// src/shared/page-scan.ts
+// Scans the text shown on a page, or the user's selection, rather than a
+// single input, so a page can be checked before it's screen-shared or
+// exported. Every match keeps the DOM range it came from so it can be
+// highlighted in place.
+import type { DetectionResult } from './pii-detector';
+import { buildTextMap, rangeFromOffsets } from './rich-text';
+
+// Page text past this is not scanned; detection runs on the main thread
+export const MAX_PAGE_SCAN_LENGTH = 200000;
+
+// Marks PasteProof's own UI so scans don't report it
+export const PAGE_SCAN_IGNORE_ATTRIBUTE = 'data-pasteproof-ui';
+
+// Text that isn't page content or that the user can't see
+const SKIPPED_TAGS = new Set([
+  'NOSCRIPT',
+  'TEMPLATE',
+  'TEXTAREA',
+  'SELECT',
+  'OPTION',
+  'SVG',
+  'IFRAME',
+]);
+
+export type PageMatch = {
+  detection: DetectionResult;
+  range: Range;
+};
+
+export function isHiddenElement(element: Element): boolean {
+  if (SKIPPED_TAGS.has(element.tagName.toUpperCase())) return true;
+  if (element.hasAttribute(PAGE_SCAN_IGNORE_ATTRIBUTE)) return true;
+  if (element.hasAttribute('hidden')) return true;
+
+  const view = element.ownerDocument.defaultView;
+  if (!view) return false;
+  const style = view.getComputedStyle(element);
+  return (
+    style.display === 'none' ||
+    style.visibility === 'hidden' ||
+    style.visibility === 'collapse'
+  );
+}
+
+// Runs `detect` over the visible text under `root`. With `within`, only
+// matches that lie entirely inside that range are kept. `truncated` is set
+// when the text was longer than MAX_PAGE_SCAN_LENGTH.
+export function scanVisibleText(
+  root: Node,
+  detect: (text: string) => DetectionResult[],
+  within?: Range
+): { matches: PageMatch[]; truncated: boolean } {
+  const map = buildTextMap(root, isHiddenElement);
+  const text = map.text.slice(0, MAX_PAGE_SCAN_LENGTH);
+
+  const matches: PageMatch[] = [];
+  let from = 0;
+  for (const detection of detect(text)) {
+    const start =
+      detection.start !== undefined &&
+      text.startsWith(detection.value, detection.start)
+        ? detection.start
+        : text.indexOf(detection.value, from);
+    if (start === -1) continue;
+    from = start + detection.value.length;
+
+    const range = rangeFromOffsets(map, start, start + detection.value.length);
+    if (!range) continue;
+    if (
+      within &&
+      (!within.isPointInRange(range.startContainer, range.startOffset) ||
+        !within.isPointInRange(range.endContainer, range.endOffset))
+    ) {
+      continue;
+    }
+    matches.push({ detection, range });
+  }
+
+  return { matches, truncated: map.text.length > MAX_PAGE_SCAN_LENGTH };
+}
+
+// Boxes covering the range in document coordinates, so they scroll with
+// the page
+export function getHighlightBoxes(
+  range: Range
+): Array<{ top: number; left: number; width: number; height: number }> {
+  const view = range.startContainer.ownerDocument?.defaultView;
+  const scrollX = view?.scrollX ?? 0;
+  const scrollY = view?.scrollY ?? 0;
+
+  return Array.from(range.getClientRects())
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rect => ({
+      top: rect.top + scrollY,
+      left: rect.left + scrollX,
+      width: rect.width,
+      height: rect.height,
+    }));
+}
+
+// Layer for boxes drawn over the page. It is positioned from the document
+// origin, so boxes placed with getHighlightBoxes scroll with the page, and
+// it never takes clicks.
+export function createOverlayLayer(zIndex: number): HTMLDivElement {
+  const layer = document.createElement('div');
+  layer.setAttribute(PAGE_SCAN_IGNORE_ATTRIBUTE, '');
+  Object.assign(layer.style, {
+    position: 'absolute',
+    top: '0',
+    left: '0',
+    width: '0',
+    height: '0',
+    pointerEvents: 'none',
+    zIndex: String(zIndex),
+  });
+  return layer;
+}
+
+export function appendRangeBoxes(
+  layer: HTMLElement,
+  range: Range,
+  style: Partial<CSSStyleDeclaration>
+) {
+  getHighlightBoxes(range).forEach(box => {
+    const element = document.createElement('div');
+    Object.assign(element.style, style, {
+      position: 'absolute',
+      top: `${box.top}px`,
+      left: `${box.left}px`,
+      width: `${box.width}px`,
+      height: `${box.height}px`,
+    });
+    layer.appendChild(element);
+  });
+}
@@ -1,23 +1,68 @@
-export type PiiType =
-  | 'CREDIT_CARD'
-  | 'SSN'
-  | 'EMAIL'
-  | 'PHONE'
-  | 'API_KEY'
-  | 'AWS_KEY'
-  | 'PRIVATE_KEY'
-  | 'IP_ADDRESS'
-  | 'HIPAA_MRN'
-  | 'HIPAA_ACCOUNT'
-  | 'HIPAA_DOB'
-  | 'PCI_CVV'
-  | 'PCI_PAN'
-  | 'PCI_TRACK'
-  | 'PCI_EXPIRY'
-  | 'GDPR_PASSPORT'
-  | 'GDPR_NIN'
-  | 'GDPR_IBAN'
-  | 'CUSTOM'; // For user-defined patterns
+import {
+  abaRoutingCheck,
+  dateOfBirthCheck,
+  expiryCheck,
+  ibanCheck,
+  ipv4Check,
+  luhnCheck,
+  ninoCheck,
+  ssnCheck,
+  trackDataCheck,
+} from './validators';
+import {
+  HIGH_ENTROPY_PATTERNS,
+  shannonEntropy,
+  TOKEN_PATTERNS,
+} from './secret-scanner';
+import {
+  DEFAULT_LOCALES,
+  getLocalePatterns,
+  isLocale,
+  type Locale,
+} from './locale-packs';
+
+// Runtime names for the built-in detection types. The `PiiType` type below is
+// derived from this object, so the extension and the backend share one list.
+export const PiiType = {
+  CreditCard: 'CREDIT_CARD',
+  SSN: 'SSN',
+  Email: 'EMAIL',
+  PhoneNumber: 'PHONE',
+  APIKey: 'API_KEY',
+  AWSKey: 'AWS_KEY',
+  PrivateKey: 'PRIVATE_KEY',
+  IPAddress: 'IP_ADDRESS',
+  Password: 'PASSWORD',
+  SlackToken: 'SLACK_TOKEN',
+  JWT: 'JWT',
+  GitHubToken: 'GITHUB_TOKEN',
+  GcpServiceAccount: 'GCP_SERVICE_ACCOUNT',
+  HighEntropySecret: 'HIGH_ENTROPY_SECRET',
+  HipaaMrn: 'HIPAA_MRN',
+  HipaaAccount: 'HIPAA_ACCOUNT',
+  HipaaDob: 'HIPAA_DOB',
+  PciCvv: 'PCI_CVV',
+  PciPan: 'PCI_PAN',
+  PciTrack: 'PCI_TRACK',
+  PciExpiry: 'PCI_EXPIRY',
+  GdprPassport: 'GDPR_PASSPORT',
+  GdprNin: 'GDPR_NIN',
+  GdprIban: 'GDPR_IBAN',
+  AbaRouting: 'ABA_ROUTING',
+  // Locale packs
+  Address: 'ADDRESS',
+  EuNationalId: 'EU_NATIONAL_ID',
+  CaSin: 'CA_SIN',
+  AuTfn: 'AU_TFN',
+  InAadhaar: 'IN_AADHAAR',
+  InPan: 'IN_PAN',
+  BrCpf: 'BR_CPF',
+  Custom: 'CUSTOM', // For user-defined patterns
+} as const;
+
+export type PiiType = (typeof PiiType)[keyof typeof PiiType];
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
 
 export type DetectionResult = {
   type: PiiType | string;
@@ -25,6 +70,7 @@ export type DetectionResult = {
   start?: number;
   end?: number;
   confidence?: number;
+  severity?: Severity;
   patternName?: string;
 };
 
@@ -37,14 +83,88 @@ export type CustomPattern = {
   is_active: boolean | number | string;
 };
 
-// Built-in patterns
-const BUILT_IN_PATTERNS: Array<{
+export type PatternDefinition = {
   type: PiiType;
   regex: RegExp;
   validate?: (value: string) => boolean;
-}> = [
+  // Base confidence (0-1) before checksum, keyword and entropy adjustments
+  confidence?: number;
+  // Words that make a match more likely to be real when they appear nearby
+  keywords?: string[];
+  // Subtracted from the confidence when none of the keywords are nearby
+  keywordPenalty?: number;
+  // Skip matches inside text another built-in pattern already matched
+  skipOverlapping?: boolean;
+  // Adjust confidence by how random the captured value looks
+  scoreEntropy?: boolean;
+};
+
+// How bad it is if a value of this type leaks
+export const PII_SEVERITY: Record<PiiType, Severity> = {
+  CREDIT_CARD: 'high',
+  SSN: 'critical',
+  EMAIL: 'medium',
+  PHONE: 'medium',
+  API_KEY: 'critical',
+  AWS_KEY: 'critical',
+  PRIVATE_KEY: 'critical',
+  IP_ADDRESS: 'low',
+  PASSWORD: 'critical',
+  SLACK_TOKEN: 'critical',
+  JWT: 'high',
+  GITHUB_TOKEN: 'critical',
+  GCP_SERVICE_ACCOUNT: 'critical',
+  HIGH_ENTROPY_SECRET: 'high',
+  HIPAA_MRN: 'high',
+  HIPAA_ACCOUNT: 'medium',
+  HIPAA_DOB: 'medium',
+  PCI_CVV: 'high',
+  PCI_PAN: 'high',
+  PCI_TRACK: 'critical',
+  PCI_EXPIRY: 'medium',
+  GDPR_PASSPORT: 'high',
+  GDPR_NIN: 'high',
+  GDPR_IBAN: 'high',
+  ABA_ROUTING: 'medium',
+  ADDRESS: 'medium',
+  EU_NATIONAL_ID: 'high',
+  CA_SIN: 'critical',
+  AU_TFN: 'critical',
+  IN_AADHAAR: 'critical',
+  IN_PAN: 'high',
+  BR_CPF: 'critical',
+  CUSTOM: 'medium',
+};
+
+export const SEVERITY_RANK: Record<Severity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// Detections below this confidence are hidden by default and not logged
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Built-in matches scoring below this are dropped outright
+const DISCARD_CONFIDENCE = 0.2;
+
+const DEFAULT_CONFIDENCE = 0.7;
+const CHECKSUM_BONUS = 0.15;
+// A keyword touching the match earns the full bonus, one at the edge of
+// the window earns the minimum
+const KEYWORD_BONUS = 0.2;
+const MIN_KEYWORD_BONUS = 0.05;
+const KEYWORD_WINDOW = 40;
+
+// Built-in patterns
+const BUILT_IN_PATTERNS: PatternDefinition[] = [
+  // Provider tokens (GitHub, Stripe, Slack, JWT, GCP service accounts)
+  ...TOKEN_PATTERNS,
   {
     type: 'CREDIT_CARD',
+    confidence: 0.75,
+    keywords: ['card', 'visa', 'mastercard', 'amex', 'credit', 'debit'],
     // Match card numbers with optional spaces/dashes: allows formats like:
     // 4242424242424242, 4242 4242 4242 4242, 4242-4242-4242-4242
     // Matches 13-19 digits with card type prefixes (Visa 4xxx, Mastercard 5[1-5]xxx, Amex 3[47]xxx, etc.)
@@ -54,105 +174,293 @@ const BUILT_IN_PATTERNS: Array<{
   },
   {
     type: 'SSN',
+    confidence: 0.75,
+    keywords: ['ssn', 'social security'],
     regex: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: ssnCheck,
   },
   {
     type: 'EMAIL',
+    confidence: 0.9,
     regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
   },
   {
     type: 'PHONE',
+    confidence: 0.65,
+    keywords: [
+      'phone',
+      'call',
+      'tel',
+      'mobile',
+      'cell',
+      'fax',
+      'contact',
+      'sms',
+      'whatsapp',
+    ],
+    keywordPenalty: 0.1,
+    skipOverlapping: true,
     regex: /\b(\+\d{1,3}[\s-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
   },
   {
     type: 'API_KEY',
-    regex: /(?:api[_-]?key|apikey)["\s:=]+["']?([a-zA-Z0-9_\-]{20,})["']?/gi,
+    confidence: 0.8,
+    scoreEntropy: true,
+    skipOverlapping: true,
+    regex:
+      /(?:api[_-]?key|apikey|token)["\s:=]+["']?([a-zA-Z0-9_\-]{20,})["']?/gi,
+  },
+  {
+    type: 'PASSWORD',
+    confidence: 0.8,
+    scoreEntropy: true,
+    skipOverlapping: true,
+    regex: /\b(?:password|passwd|pwd)[:\s=]+['"]?([^\s'"]{6,})['"]?/gi,
   },
   {
     type: 'AWS_KEY',
+    confidence: 0.95,
     regex: /AKIA[0-9A-Z]{16}/g,
   },
   {
     type: 'PRIVATE_KEY',
+    confidence: 0.99,
     regex:
       /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----[A-Za-z0-9+\/=\s\n\r]+-----END (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gs,
   },
   {
     type: 'IP_ADDRESS',
+    confidence: 0.5,
+    keywords: [
+      'ip',
+      'ipv4',
+      'server',
+      'host',
+      'address',
+      'ssh',
+      'gateway',
+      'dns',
+      'ping',
+    ],
+    keywordPenalty: 0.1,
+    skipOverlapping: true,
     regex: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    validate: ipv4Check,
   },
   // HIPAA patterns
   {
     type: 'HIPAA_MRN',
+    confidence: 0.75,
+    keywords: ['mrn', 'patient', 'medical record', 'chart', 'hospital'],
     regex: /\bMRN[-\s]?\d{6,12}\b/gi,
   },
   {
     type: 'HIPAA_ACCOUNT',
+    confidence: 0.6,
+    keywords: ['patient', 'medical', 'billing'],
     regex: /\bAccount[-\s]?(?:Number|#)?[-\s]?\d{6,12}\b/gi,
   },
   {
     type: 'HIPAA_DOB',
+    confidence: 0.8,
     regex: /\b(?:DOB|Date of Birth)[-\s:]?\d{1,2}[/-]\d{1,2}[/-]\d{2,4}\b/gi,
+    validate: dateOfBirthCheck,
   },
   // PCI-DSS patterns
   {
     type: 'PCI_CVV',
+    confidence: 0.75,
+    keywords: ['cvv', 'cvv2', 'cvc', 'security code', 'card verification'],
     regex:
       /\b(?:CVV|CVC|Card Verification)[-\s]?(?:Value|Code)?[-\s]?\d{3,4}\b/gi,
   },
   {
     type: 'PCI_PAN',
+    confidence: 0.8,
     regex: /\b(?:PAN|Primary Account Number)[-\s]?\d{13,19}\b/gi,
+    validate: luhnCheck,
   },
   {
     type: 'PCI_TRACK',
+    confidence: 0.8,
     regex: /\b%?[A-Z]\d{13,19}=[\d?]{4,}\b/g,
+    validate: trackDataCheck,
   },
   {
     type: 'PCI_EXPIRY',
+    confidence: 0.7,
+    keywords: ['card'],
     regex: /\b(?:Exp|Expiry|Expiration)[-\s:]?\d{1,2}[/-]\d{2,4}\b/gi,
+    validate: expiryCheck,
   },
   // GDPR patterns
   {
     type: 'GDPR_PASSPORT',
+    confidence: 0.8,
     regex: /\b(?:Passport|Passport Number|Passport #)[-\s:]?[A-Z0-9]{6,9}\b/gi,
   },
   {
     type: 'GDPR_NIN',
+    confidence: 0.8,
     regex: /\b(?:NI|NINO|National Insurance)[-\s]?[A-Z]{2}\d{6}[A-Z]\b/gi,
+    validate: ninoCheck,
   },
   {
     type: 'GDPR_IBAN',
-    regex: /\b[A-Z]{2}\d{2}[A-Z0-9]{4,30}\b/g,
+    confidence: 0.75,
+    keywords: ['iban', 'bank', 'account', 'transfer', 'swift', 'bic', 'wire'],
+    keywordPenalty: 0.1,
+    // Compact or printed in groups of four: GB82WEST12345698765432 or
+    // GB82 WEST 1234 5698 7654 32
+    regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: ibanCheck,
+  },
+  // Banking patterns
+  {
+    type: 'ABA_ROUTING',
+    confidence: 0.8,
+    keywords: ['routing', 'aba', 'rtn', 'bank', 'wire'],
+    regex:
+      /\b(?:ABA|RTN|Routing)(?:[-\s]?(?:Number|No\.?|#))?[-\s:#]*\d{9}\b/gi,
+    validate: abaRoutingCheck,
   },
 ];
 
-// Store custom patterns (fetched from API)
-let customPatterns: CustomPattern[] = [];
-
-// Luhn algorithm for credit card validation
-function luhnCheck(cardNumber: string): boolean {
-  const digits = cardNumber.replace(/\D/g, '');
-  if (digits.length < 13 || digits.length > 19) return false;
+// Catch-all patterns run after the built-in and locale patterns and skip
+// anything those already matched
+const FALLBACK_PATTERNS: PatternDefinition[] = [
+  // Unlabelled high-entropy credentials
+  ...HIGH_ENTROPY_PATTERNS,
+  // Bare numbers that are only sensitive in context. Without a keyword
+  // nearby they score below DISCARD_CONFIDENCE and are dropped.
+  {
+    type: 'HIPAA_MRN',
+    confidence: 0.4,
+    keywords: ['mrn', 'patient', 'medical record', 'chart', 'hospital'],
+    keywordPenalty: 0.3,
+    skipOverlapping: true,
+    regex: /\b\d{6,10}\b/g,
+  },
+  {
+    type: 'PCI_CVV',
+    confidence: 0.4,
+    keywords: ['cvv', 'cvv2', 'cvc', 'security code', 'card verification'],
+    keywordPenalty: 0.3,
+    skipOverlapping: true,
+    regex: /\b\d{3,4}\b/g,
+  },
+];
 
-  let sum = 0;
-  let isEven = false;
+// Severity for a detection type; unknown types (AI, custom) default to medium
+export function getSeverity(type: string): Severity {
+  return PII_SEVERITY[type as PiiType] ?? 'medium';
+}
 
-  for (let i = digits.length - 1; i >= 0; i--) {
-    let digit = parseInt(digits[i]);
+// Sort order for display and logging: most severe first, then most confident
+export function compareDetections(
+  a: DetectionResult,
+  b: DetectionResult
+): number {
+  const severityDiff =
+    SEVERITY_RANK[b.severity ?? getSeverity(b.type)] -
+    SEVERITY_RANK[a.severity ?? getSeverity(a.type)];
+  if (severityDiff !== 0) return severityDiff;
+  return (b.confidence ?? 0) - (a.confidence ?? 0);
+}
 
-    if (isEven) {
-      digit *= 2;
-      if (digit > 9) digit -= 9;
+// Distance in characters from the match to the closest keyword, 0 when a
+// keyword is part of the match itself, or null if none is in the window
+function nearestKeywordDistance(
+  text: string,
+  start: number,
+  end: number,
+  keywords: string[]
+): number | null {
+  const windowStart = Math.max(0, start - KEYWORD_WINDOW);
+  const nearby = text.slice(windowStart, end + KEYWORD_WINDOW).toLowerCase();
+  const matchStart = start - windowStart;
+  const matchEnd = end - windowStart;
+
+  let nearest: number | null = null;
+  for (const keyword of keywords) {
+    for (const found of nearby.matchAll(new RegExp(`\\b${keyword}\\b`, 'g'))) {
+      const keywordStart = found.index ?? 0;
+      const keywordEnd = keywordStart + keyword.length;
+      const distance =
+        keywordEnd <= matchStart
+          ? matchStart - keywordEnd
+          : keywordStart >= matchEnd
+            ? keywordStart - matchEnd
+            : 0;
+      if (nearest === null || distance < nearest) nearest = distance;
     }
+  }
+  return nearest;
+}
+
+// Closer keywords raise confidence more; no keyword at all applies the
+// pattern's penalty
+function proximityAdjustment(
+  pattern: PatternDefinition,
+  text: string,
+  start: number,
+  end: number
+): number {
+  if (!pattern.keywords) return 0;
+
+  const distance = nearestKeywordDistance(text, start, end, pattern.keywords);
+  if (distance === null) return -(pattern.keywordPenalty ?? 0);
+
+  const closeness = 1 - Math.min(distance, KEYWORD_WINDOW) / KEYWORD_WINDOW;
+  return MIN_KEYWORD_BONUS + (KEYWORD_BONUS - MIN_KEYWORD_BONUS) * closeness;
+}
+
+// Random-looking secrets score higher, dictionary words and repeats lower
+function entropyAdjustment(secret: string): number {
+  const entropy = shannonEntropy(secret);
+  if (entropy < 2.5) return -0.3;
+  if (entropy < 3.5) return -0.1;
+  if (entropy > 4) return 0.1;
+  return 0;
+}
 
-    sum += digit;
-    isEven = !isEven;
+function scoreMatch(
+  pattern: PatternDefinition,
+  match: RegExpMatchArray,
+  text: string
+): number {
+  let confidence = pattern.confidence ?? DEFAULT_CONFIDENCE;
+
+  // Only reached when the validator passed
+  if (pattern.validate) confidence += CHECKSUM_BONUS;
+
+  const start = match.index ?? 0;
+  confidence += proximityAdjustment(
+    pattern,
+    text,
+    start,
+    start + match[0].length
+  );
+
+  if (pattern.scoreEntropy) {
+    confidence += entropyAdjustment(match[1] ?? match[0]);
   }
 
-  return sum % 10 === 0;
+  return Math.round(Math.min(0.99, Math.max(0.05, confidence)) * 100) / 100;
 }
 
+// Store custom patterns (fetched from API)
+let customPatterns: CustomPattern[] = [];
+
+// Locale packs added to the built-in patterns
+let activeLocales: Locale[] = DEFAULT_LOCALES;
+
+// Built-in types to run; null runs all of them
+let enabledTypes: readonly PiiType[] | null = null;
+
+// Types never reported, built-in or custom
+let ignoredTypes: readonly string[] = [];
+
 // Helper function to detect what PII type a value might be
 // This helps normalize custom pattern types to match known PII types
 function detectPiiType(value: string): PiiType | null {
@@ -194,7 +502,36 @@ function detectPiiType(value: string): PiiType | null {
 
 // Set custom patterns (called after fetching from API)
 export function setCustomPatterns(patterns: CustomPattern[]) {
-  customPatterns = patterns.filter(p => {
+  customPatterns = filterActivePatterns(patterns);
+
+  // Test each pattern
+  customPatterns.forEach(p => {
+    try {
+      const regex = new RegExp(p.pattern, 'gi');
+      const testResult = regex.test('EMP-123456');
+    } catch (e) {
+      console.error(`❌ Pattern "${p.name}" regex error:`, e);
+    }
+  });
+}
+
+// Set active locales (called with the user's saved selection)
+export function setActiveLocales(locales: readonly string[]) {
+  activeLocales = locales.filter(isLocale);
+}
+
+// Restrict built-in detection (called when a compliance template is applied)
+export function setEnabledTypes(types: readonly PiiType[] | null) {
+  enabledTypes = types;
+}
+
+// Skip types entirely (called with the site's whitelist exemptions)
+export function setIgnoredTypes(types: readonly string[]) {
+  ignoredTypes = types;
+}
+
+function filterActivePatterns(patterns: CustomPattern[]): CustomPattern[] {
+  return patterns.filter(p => {
     // Handle various types that might come from API (boolean, number, string)
     const isActive = p.is_active;
     if (typeof isActive === 'boolean') {
@@ -208,27 +545,47 @@ export function setCustomPatterns(patterns: CustomPattern[]) {
     }
     return false;
   });
-
-  // Test each pattern
-  customPatterns.forEach(p => {
-    try {
-      const regex = new RegExp(p.pattern, 'gi');
-      const testResult = regex.test('EMP-123456');
-    } catch (e) {
-      console.error(`❌ Pattern "${p.name}" regex error:`, e);
-    }
-  });
 }
 
+export type DetectOptions = {
+  // Patterns to use instead of the ones registered with setCustomPatterns.
+  // The backend passes these per request since it has no module state.
+  customPatterns?: CustomPattern[];
+  // Restrict built-in detection to these types instead of the ones set with
+  // setEnabledTypes
+  types?: readonly PiiType[];
+  // Drop detections scored below this confidence
+  minConfidence?: number;
+  // Locale packs to use instead of the ones set with setActiveLocales
+  locales?: readonly Locale[];
+};
+
 // Main detection function
-export function detectPii(text: string): DetectionResult[] {
+export function detectPii(
+  text: string,
+  options: DetectOptions = {}
+): DetectionResult[] {
   if (!text || text.length === 0) return [];
 
   const results: DetectionResult[] = [];
   const builtInResults: DetectionResult[] = [];
+  const activeCustomPatterns = options.customPatterns
+    ? filterActivePatterns(options.customPatterns)
+    : customPatterns;
+
+  const types = options.types ?? enabledTypes;
+  const patterns = [
+    ...BUILT_IN_PATTERNS,
+    ...getLocalePatterns(options.locales ?? activeLocales),
+    ...FALLBACK_PATTERNS,
+  ];
 
   // Check built-in patterns first (these take priority)
-  for (const pattern of BUILT_IN_PATTERNS) {
+  for (const pattern of patterns) {
+    if (types && !types.includes(pattern.type)) {
+      continue;
+    }
+
     const matches = text.matchAll(pattern.regex);
 
     for (const match of matches) {
@@ -239,11 +596,27 @@ export function detectPii(text: string): DetectionResult[] {
         continue;
       }
 
+      const start = match.index ?? 0;
+      const end = start + value.length;
+      if (
+        pattern.skipOverlapping &&
+        builtInResults.some(r => r.start! < end && start < r.end!)
+      ) {
+        continue;
+      }
+
+      const confidence = scoreMatch(pattern, match, text);
+      if (confidence < DISCARD_CONFIDENCE) {
+        continue;
+      }
+
       const detection: DetectionResult = {
         type: pattern.type,
         value,
-        start: match.index,
-        end: match.index ? match.index + value.length : undefined,
+        start,
+        end,
+        confidence,
+        severity: PII_SEVERITY[pattern.type],
       };
 
       builtInResults.push(detection);
@@ -252,7 +625,7 @@ export function detectPii(text: string): DetectionResult[] {
   }
 
   // Check custom patterns (only add if not already detected by built-in patterns)
-  for (const customPattern of customPatterns) {
+  for (const customPattern of activeCustomPatterns) {
     try {
       const regex = new RegExp(customPattern.pattern, 'gi');
       const matches = text.matchAll(regex);
@@ -296,6 +669,7 @@ export function detectPii(text: string): DetectionResult[] {
           start,
           end,
           confidence: 0.9,
+          severity: getSeverity(normalizedType),
           patternName: customPattern.name,
         });
       }
@@ -350,5 +724,10 @@ export function detectPii(text: string): DetectionResult[] {
     }
   }
 
-  return uniqueResults;
+  const { minConfidence } = options;
+  return uniqueResults.filter(
+    r =>
+      !ignoredTypes.includes(r.type) &&
+      (minConfidence === undefined || (r.confidence ?? 1) >= minConfidence)
+  );
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildTextMap, rangeFromOffsets, replaceValues } from './rich-text';
+
+const editor = (html: string) => {
+  const root = document.createElement('div');
+  root.contentEditable = 'true';
+  root.innerHTML = html;
+  document.body.appendChild(root);
+  return root;
+};
+
+describe('Rich text replacement', () => {
+  it('should map text across nodes and block boundaries', () => {
+    const root = editor(
+      '<p>Mail <b>jane</b>@example.com</p><p>next<br>line</p>'
+    );
+    const map = buildTextMap(root);
+    expect(map.text).toBe('Mail jane@example.com\nnext\nline\n');
+
+    const start = map.text.indexOf('jane@');
+    const range = rangeFromOffsets(map, start, start + 16)!;
+    expect(range.toString()).toBe('jane@example.com');
+  });
+
+  it('should replace values split over several nodes', () => {
+    const root = editor(
+      'Card <span>4111</span> <span>1111</span> <span>1111</span> <span>1111</span> ok'
+    );
+    const count = replaceValues(root, [
+      { value: '4111 1111 1111 1111', replacement: '[CREDIT_CARD]' },
+    ]);
+    expect(count).toBe(1);
+    expect(root.textContent).toBe('Card [CREDIT_CARD] ok');
+  });
+
+  it('should replace every occurrence and support removal', () => {
+    const root = editor('<p>a@b.co and <i>a@</i>b.co</p><p>key sk_live_x</p>');
+    replaceValues(root, [
+      { value: 'a@b.co', replacement: '<EMAIL_1>' },
+      { value: 'sk_live_x', replacement: '' },
+    ]);
+    expect(root.textContent).toBe('<EMAIL_1> and <EMAIL_1>key ');
+  });
+
+  it('should let the editor handle beforeinput', () => {
+    const root = editor('secret 123-45-6789');
+    const inputTypes: string[] = [];
+    root.addEventListener('beforeinput', e => {
+      inputTypes.push((e as InputEvent).inputType);
+      e.preventDefault();
+    });
+
+    replaceValues(root, [{ value: '123-45-6789', replacement: '•••' }]);
+    expect(inputTypes).toEqual(['insertReplacementText']);
+    // The editor cancelled the edit and owns the DOM
+    expect(root.textContent).toBe('secret 123-45-6789');
+  });
+});
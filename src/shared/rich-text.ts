@@ -0,0 +1,212 @@
+// src/shared/rich-text.ts
+// Range-based replacement for contenteditable editors. A value can be split
+// over several text nodes (a bolded part of an email, a card number wrapped
+// in <span>s), so text offsets are mapped back to DOM ranges and the edit
+// goes through the editor's own input pipeline. That keeps its undo history
+// and framework state (ProseMirror, Slate, Lexical, ...) consistent.
+
+// Elements innerText puts on their own line
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGURE',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'TABLE',
+  'TR',
+  'UL',
+]);
+
+type Position = { node: Text; offset: number } | null;
+
+// Text as innerText would roughly render it, with the text node and offset
+// behind every character. Line breaks added for blocks and <br> map to null.
+export type TextMap = {
+  text: string;
+  positions: Position[];
+};
+
+export type TextReplacement = {
+  value: string;
+  replacement: string;
+  // Offset reported by the detector, used when it still lines up
+  start?: number;
+};
+
+// `skip` leaves out elements and everything inside them
+export function buildTextMap(
+  root: Node,
+  skip?: (element: Element) => boolean
+): TextMap {
+  const chars: string[] = [];
+  const positions: Position[] = [];
+
+  const lineBreak = () => {
+    if (chars.length > 0 && chars[chars.length - 1] !== '\n') {
+      chars.push('\n');
+      positions.push(null);
+    }
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node as Text;
+      for (let i = 0; i < text.data.length; i++) {
+        chars.push(text.data[i]);
+        positions.push({ node: text, offset: i });
+      }
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (node as Element).tagName;
+    if (tag === 'SCRIPT' || tag === 'STYLE') return;
+    if (skip?.(node as Element)) return;
+    if (tag === 'BR') {
+      chars.push('\n');
+      positions.push(null);
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) lineBreak();
+    node.childNodes.forEach(walk);
+    if (isBlock) lineBreak();
+  };
+
+  walk(root);
+  return { text: chars.join(''), positions };
+}
+
+// DOM range covering text[start, end), or null when it has no text nodes
+export function rangeFromOffsets(
+  map: TextMap,
+  start: number,
+  end: number
+): Range | null {
+  let first: Position = null;
+  let last: Position = null;
+  for (let i = start; i < end && i < map.positions.length; i++) {
+    const position = map.positions[i];
+    if (position) {
+      first ??= position;
+      last = position;
+    }
+  }
+  if (!first || !last) return null;
+
+  const range = first.node.ownerDocument.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return range;
+}
+
+// Selects the range and replaces it the way typing would: execCommand fires
+// beforeinput/input and lands in the editor's undo stack. Editors that
+// don't support it get a cancelable beforeinput, and the DOM is only edited
+// directly if none of them handled it.
+export function replaceRange(
+  root: HTMLElement,
+  range: Range,
+  replacement: string
+) {
+  const doc = root.ownerDocument;
+  const selection = doc.getSelection();
+  root.focus();
+  if (selection) {
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  const command = replacement ? 'insertText' : 'delete';
+  if (
+    typeof doc.execCommand === 'function' &&
+    doc.execCommand(command, false, replacement)
+  ) {
+    return;
+  }
+
+  const inputType = replacement
+    ? 'insertReplacementText'
+    : 'deleteContentBackward';
+  const handled = !root.dispatchEvent(
+    new InputEvent('beforeinput', {
+      bubbles: true,
+      cancelable: true,
+      inputType,
+      data: replacement || null,
+    })
+  );
+  if (handled) return;
+
+  range.deleteContents();
+  if (replacement) {
+    const text = doc.createTextNode(replacement);
+    range.insertNode(text);
+    range.setStartAfter(text);
+    range.collapse(true);
+  }
+  root.dispatchEvent(
+    new InputEvent('input', {
+      bubbles: true,
+      inputType,
+      data: replacement || null,
+    })
+  );
+}
+
+// Replaces every occurrence of each value under `root`. The text is mapped
+// again after each edit because editors may re-render the DOM. Returns the
+// number of replacements made.
+export function replaceValues(
+  root: HTMLElement,
+  replacements: TextReplacement[]
+): number {
+  let count = 0;
+
+  for (const { value, replacement, start } of replacements) {
+    if (!value) continue;
+
+    // Bounded by the initial count so a replacement that still contains
+    // its value can't loop
+    const occurrences = buildTextMap(root).text.split(value).length - 1;
+    let hint = start;
+    let from = 0;
+
+    for (let i = 0; i < occurrences; i++) {
+      const map = buildTextMap(root);
+      const useHint = hint !== undefined && map.text.startsWith(value, hint);
+      const offset = useHint ? hint! : map.text.indexOf(value, from);
+      hint = undefined;
+      if (offset === -1) break;
+
+      const range = rangeFromOffsets(map, offset, offset + value.length);
+      if (!range) break;
+
+      replaceRange(root, range, replacement);
+      // Occurrences before the hinted one haven't been searched yet
+      from = useHint ? 0 : offset + replacement.length;
+      count++;
+    }
+  }
+
+  return count;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createFakeValue } from './synthetic-values';
+import { ibanCheck, luhnCheck, ssnCheck } from './validators';
+
+describe('Synthetic values', () => {
+  it('should give the same fake for the same value and seed', () => {
+    const first = createFakeValue('EMAIL', 'jane@corp.com', 'seed');
+    expect(createFakeValue('EMAIL', 'jane@corp.com', 'seed')).toBe(first);
+    expect(createFakeValue('EMAIL', 'john@corp.com', 'seed')).not.toBe(first);
+    expect(first).toMatch(/^[a-z]+\.[a-z]+\d+@example\.(com|org|net)$/);
+  });
+
+  it('should produce Luhn-valid card numbers in the same format', () => {
+    const fake = createFakeValue('CREDIT_CARD', '4111 1111 1111 1111', 's')!;
+    expect(fake).toMatch(/^4\d{3} \d{4} \d{4} \d{4}$/);
+    expect(luhnCheck(fake)).toBe(true);
+    expect(fake).not.toBe('4111 1111 1111 1111');
+  });
+
+  it('should keep the IBAN country and a valid checksum', () => {
+    const fake = createFakeValue(
+      'GDPR_IBAN',
+      'DE89 3704 0044 0532 0130 00',
+      's'
+    )!;
+    expect(fake.startsWith('DE')).toBe(true);
+    expect(fake).toMatch(/^DE\d{2}( \d{4}){4} \d{2}$/);
+    expect(ibanCheck(fake)).toBe(true);
+  });
+
+  it('should keep phone formats and country codes', () => {
+    expect(createFakeValue('PHONE', '(555) 123-4567', 's')).toMatch(
+      /^\(\d{3}\) \d{3}-\d{4}$/
+    );
+    expect(createFakeValue('PHONE', '+44 20 7946 0958', 's')).toMatch(
+      /^\+44 \d{2} \d{4} \d{4}$/
+    );
+  });
+
+  it('should produce structurally valid SSNs', () => {
+    const fake = createFakeValue('SSN', '123-45-6789', 's')!;
+    expect(fake).toMatch(/^\d{3}-\d{2}-\d{4}$/);
+    expect(ssnCheck(fake)).toBe(true);
+  });
+
+  it('should return null for types without a generator', () => {
+    expect(createFakeValue('API_KEY', 'sk_live_abc', 's')).toBeNull();
+  });
+});
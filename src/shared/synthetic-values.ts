@@ -0,0 +1,192 @@
+// src/shared/synthetic-values.ts
+// Realistic fake replacements that keep the shape of the original, so forms
+// that validate their input still accept anonymized text: emails stay
+// emails, card numbers stay Luhn-valid, IBANs keep their country and check
+// digits. Fakes are derived from a hash of the original and a session seed,
+// so the same value always gets the same fake within one session.
+import { PiiType } from './pii-detector';
+
+// Types createFakeValue knows how to fake
+export const FAKE_TYPES: PiiType[] = [
+  'EMAIL',
+  'PHONE',
+  'CREDIT_CARD',
+  'PCI_PAN',
+  'GDPR_IBAN',
+  'SSN',
+  'IP_ADDRESS',
+];
+
+const FAKE_NAMES = [
+  'alex',
+  'sam',
+  'jordan',
+  'taylor',
+  'morgan',
+  'casey',
+  'riley',
+  'jamie',
+  'avery',
+  'quinn',
+];
+
+// Reserved for documentation (RFC 2606 / RFC 5737), so fakes never reach a
+// real mailbox or host
+const FAKE_EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+const FAKE_IP_PREFIXES = ['192.0.2', '198.51.100', '203.0.113'];
+
+// FNV-1a
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for picking fake digits
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = () => number;
+
+const randomInt = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+const pick = <T>(random: Random, items: readonly T[]): T =>
+  items[Math.floor(random() * items.length)];
+
+// Replaces digits (and optionally letters) in place, keeping separators
+function replaceChars(
+  value: string,
+  random: Random,
+  keep = 0,
+  letters = false
+): string {
+  let seen = 0;
+  return value.replace(letters ? /[A-Za-z0-9]/g : /\d/g, char => {
+    if (seen++ < keep) return char;
+    if (/\d/.test(char)) return String(randomInt(random, 0, 9));
+    const letter = String.fromCharCode(randomInt(random, 65, 90));
+    return char === char.toLowerCase() ? letter.toLowerCase() : letter;
+  });
+}
+
+// Digit that makes `digits` + check digit pass the Luhn check
+function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const code = /[A-Z]/.test(char)
+      ? (char.charCodeAt(0) - 55).toString()
+      : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + parseInt(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+// Puts `chars` back into the separators of `template`
+function applyFormat(template: string, chars: string): string {
+  let index = 0;
+  return template.replace(/[A-Za-z0-9]/g, () => chars[index++] ?? '');
+}
+
+function fakeEmail(_value: string, random: Random): string {
+  const name = `${pick(random, FAKE_NAMES)}.${pick(random, FAKE_NAMES)}`;
+  return `${name}${randomInt(random, 1, 99)}@${pick(random, FAKE_EMAIL_DOMAINS)}`;
+}
+
+// Keeps the network's leading digit and the length, then fixes the check
+// digit
+function fakeCardNumber(value: string, random: Random): string {
+  const digits = value.replace(/\D/g, '');
+  let body = digits[0];
+  while (body.length < digits.length - 1) {
+    body += String(randomInt(random, 0, 9));
+  }
+  return applyFormat(value, body + luhnCheckDigit(body));
+}
+
+// Keeps the country code and length, recomputes the check digits
+function fakeIban(value: string, random: Random): string {
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+  const country = compact.slice(0, 2);
+  const bban = replaceChars(compact.slice(4), random, 0, true).toUpperCase();
+  const check = 98 - mod97(`${bban}${country}00`);
+  return applyFormat(
+    value,
+    `${country}${String(check).padStart(2, '0')}${bban}`
+  );
+}
+
+// Keeps the country code of international numbers and every separator
+function fakePhone(value: string, random: Random): string {
+  const countryCode = value.trim().startsWith('+')
+    ? (value.match(/^\s*\+(\d{1,3})/)?.[1].length ?? 0)
+    : 0;
+  return replaceChars(value, random, countryCode);
+}
+
+// Area 001-665 and 667-899, non-zero group and serial, so the fake passes
+// the same checks as a real SSN
+function fakeSsn(value: string, random: Random): string {
+  let area = randomInt(random, 1, 898);
+  if (area >= 666) area++;
+  const digits =
+    String(area).padStart(3, '0') +
+    String(randomInt(random, 1, 99)).padStart(2, '0') +
+    String(randomInt(random, 1, 9999)).padStart(4, '0');
+  return applyFormat(value, digits);
+}
+
+function fakeIpAddress(_value: string, random: Random): string {
+  return `${pick(random, FAKE_IP_PREFIXES)}.${randomInt(random, 1, 254)}`;
+}
+
+const GENERATORS: Partial<
+  Record<PiiType, (value: string, random: Random) => string>
+> = {
+  EMAIL: fakeEmail,
+  PHONE: fakePhone,
+  CREDIT_CARD: fakeCardNumber,
+  PCI_PAN: fakeCardNumber,
+  GDPR_IBAN: fakeIban,
+  SSN: fakeSsn,
+  IP_ADDRESS: fakeIpAddress,
+};
+
+// A realistic fake for `value`, or null when the type has no generator.
+// The same type, value and seed always give the same fake.
+export function createFakeValue(
+  type: string,
+  value: string,
+  seed: string
+): string | null {
+  const generate = GENERATORS[type as PiiType];
+  if (!generate || !value) return null;
+
+  const random = createRandom(hashString(`${seed}:${type}:${value}`));
+  return generate(value, random);
+}
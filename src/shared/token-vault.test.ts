@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTokenVault,
+  decryptTokenVault,
+  encryptTokenVault,
+  generateVaultKey,
+  restoreTokens,
+  tokenize,
+} from './token-vault';
+
+describe('Token vault', () => {
+  it('should hand out numbered tokens per type and reuse them', () => {
+    const vault = createTokenVault();
+    expect(tokenize(vault, 'EMAIL', 'a@example.com')).toBe('<EMAIL_1>');
+    expect(tokenize(vault, 'EMAIL', 'b@example.com')).toBe('<EMAIL_2>');
+    expect(tokenize(vault, 'EMAIL', 'a@example.com')).toBe('<EMAIL_1>');
+    expect(tokenize(vault, 'credit card', '4111111111111111')).toBe(
+      '<CREDIT_CARD_1>'
+    );
+  });
+
+  it('should restore known tokens and leave unknown ones', () => {
+    const vault = createTokenVault();
+    tokenize(vault, 'EMAIL', 'a@example.com');
+    tokenize(vault, 'PHONE', '555-123-4567');
+
+    expect(
+      restoreTokens(vault, 'Mail <EMAIL_1> or call <PHONE_1>, not <SSN_1>')
+    ).toEqual({
+      text: 'Mail a@example.com or call 555-123-4567, not <SSN_1>',
+      restored: 2,
+    });
+  });
+
+  it('should round-trip through encryption and reject other keys', async () => {
+    const vault = createTokenVault();
+    tokenize(vault, 'EMAIL', 'a@example.com');
+    const key = await generateVaultKey();
+
+    const payload = await encryptTokenVault(vault, key);
+    expect(atob(payload)).not.toContain('example.com');
+    expect(await decryptTokenVault(payload, key)).toEqual(vault);
+
+    await expect(
+      decryptTokenVault(payload, await generateVaultKey())
+    ).rejects.toThrow();
+  });
+});
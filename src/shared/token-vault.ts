@@ -0,0 +1,122 @@
+// src/shared/token-vault.ts
+// Reversible pseudonymization. Each detected value is swapped for a stable
+// token such as <EMAIL_1>; the mapping is kept so the originals can be put
+// back later, e.g. in an LLM's answer. Vaults are stored encrypted with
+// AES-GCM and never leave the browser.
+
+export type TokenVault = {
+  // Token -> original value
+  tokens: Record<string, string>;
+  // Last number handed out per token prefix
+  counters: Record<string, number>;
+};
+
+const TOKEN_REGEX = /<[A-Z0-9_]+_\d+>/g;
+const IV_LENGTH = 12;
+
+export function createTokenVault(): TokenVault {
+  return { tokens: {}, counters: {} };
+}
+
+// "credit card" and "CREDIT_CARD" both become CREDIT_CARD
+function tokenPrefix(type: string): string {
+  return (
+    type
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'VALUE'
+  );
+}
+
+// Returns the existing token when the same value was seen before, so a value
+// that appears several times always maps to one token
+export function tokenize(vault: TokenVault, type: string, value: string) {
+  const prefix = tokenPrefix(type);
+  const existing = Object.entries(vault.tokens).find(
+    ([token, original]) => original === value && token.startsWith(`<${prefix}_`)
+  );
+  if (existing) return existing[0];
+
+  const next = (vault.counters[prefix] ?? 0) + 1;
+  vault.counters[prefix] = next;
+  const token = `<${prefix}_${next}>`;
+  vault.tokens[token] = value;
+  return token;
+}
+
+// Unknown tokens are left as they are
+export function restoreTokens(
+  vault: TokenVault,
+  text: string
+): { text: string; restored: number } {
+  let restored = 0;
+  const result = text.replace(TOKEN_REGEX, token => {
+    const original = vault.tokens[token];
+    if (original === undefined) return token;
+    restored++;
+    return original;
+  });
+  return { text: result, restored };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function importKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(key), 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+// A fresh 256-bit AES key, base64 encoded for storage
+export async function generateVaultKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+// Base64 of the IV followed by the ciphertext
+export async function encryptTokenVault(
+  vault: TokenVault,
+  key: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importKey(key),
+    new TextEncoder().encode(JSON.stringify(vault))
+  );
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(payload);
+}
+
+// Throws if the payload was encrypted with another key or tampered with
+export async function decryptTokenVault(
+  payload: string,
+  key: string
+): Promise<TokenVault> {
+  const bytes = fromBase64(payload);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+    await importKey(key),
+    bytes.slice(IV_LENGTH)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as TokenVault;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aadhaarCheck,
+  abaRoutingCheck,
+  bsnCheck,
+  cpfCheck,
+  dateOfBirthCheck,
+  dniCheck,
+  e164Check,
+  expiryCheck,
+  ibanCheck,
+  ipv4Check,
+  ninoCheck,
+  nirCheck,
+  panCheck,
+  peselCheck,
+  sinCheck,
+  ssnCheck,
+  tfnCheck,
+} from './validators';
+
+describe('Validators', () => {
+  it('should accept valid IBANs in compact and grouped form', () => {
+    expect(ibanCheck('GB82WEST12345698765432')).toBe(true);
+    expect(ibanCheck('DE89 3704 0044 0532 0130 00')).toBe(true);
+  });
+
+  it('should reject IBANs with a bad checksum or country length', () => {
+    expect(ibanCheck('GB82WEST12345698765433')).toBe(false);
+    expect(ibanCheck('DE89370400440532013')).toBe(false);
+    expect(ibanCheck('XX12ABCD1234')).toBe(false);
+  });
+
+  it('should reject SSNs in reserved ranges', () => {
+    expect(ssnCheck('555-44-3333')).toBe(true);
+    expect(ssnCheck('000-12-3456')).toBe(false);
+    expect(ssnCheck('666-12-3456')).toBe(false);
+    expect(ssnCheck('912-12-3456')).toBe(false);
+    expect(ssnCheck('555-00-3333')).toBe(false);
+    expect(ssnCheck('555-44-0000')).toBe(false);
+  });
+
+  it('should apply UK NINO prefix and suffix rules', () => {
+    expect(ninoCheck('NINO AB123456C')).toBe(true);
+    expect(ninoCheck('NINO GB123456C')).toBe(false);
+    expect(ninoCheck('NINO DA123456C')).toBe(false);
+    expect(ninoCheck('NINO AB123456E')).toBe(false);
+  });
+
+  it('should validate ABA routing checksums', () => {
+    expect(abaRoutingCheck('Routing # 021000021')).toBe(true);
+    expect(abaRoutingCheck('Routing # 021000022')).toBe(false);
+    expect(abaRoutingCheck('Routing # 991000021')).toBe(false);
+  });
+
+  it('should validate IPv4 octets', () => {
+    expect(ipv4Check('192.168.1.10')).toBe(true);
+    expect(ipv4Check('999.168.1.10')).toBe(false);
+    expect(ipv4Check('1.02.3.4')).toBe(false);
+  });
+
+  it('should validate expiry months and dates of birth', () => {
+    expect(expiryCheck('Exp 12/27')).toBe(true);
+    expect(expiryCheck('Exp 13/27')).toBe(false);
+    expect(dateOfBirthCheck('DOB 03/14/1985')).toBe(true);
+    expect(dateOfBirthCheck('DOB 31/02/1985')).toBe(false);
+  });
+
+  it('should check international phone number length', () => {
+    expect(e164Check('+44 20 7946 0958')).toBe(true);
+    expect(e164Check('+44 20')).toBe(false);
+  });
+
+  it('should validate Canadian SIN and Australian TFN checksums', () => {
+    expect(sinCheck('130 456 783')).toBe(true);
+    expect(sinCheck('130 456 784')).toBe(false);
+    expect(sinCheck('830 456 781')).toBe(false);
+    expect(tfnCheck('123 456 782')).toBe(true);
+    expect(tfnCheck('123 456 789')).toBe(false);
+  });
+
+  it('should validate Indian Aadhaar and PAN', () => {
+    expect(aadhaarCheck('2345 6789 0124')).toBe(true);
+    expect(aadhaarCheck('2345 6789 0125')).toBe(false);
+    expect(aadhaarCheck('1345 6789 0124')).toBe(false);
+    expect(panCheck('ABCPE1234F')).toBe(true);
+    expect(panCheck('ABCDE1234F')).toBe(false);
+  });
+
+  it('should validate Brazilian CPF check digits', () => {
+    expect(cpfCheck('529.982.247-25')).toBe(true);
+    expect(cpfCheck('529.982.247-26')).toBe(false);
+    expect(cpfCheck('111.111.111-11')).toBe(false);
+  });
+
+  it('should validate EU national identifiers', () => {
+    expect(dniCheck('12345678Z')).toBe(true);
+    expect(dniCheck('12345678A')).toBe(false);
+    expect(dniCheck('X1234567L')).toBe(true);
+    expect(bsnCheck('111222333')).toBe(true);
+    expect(bsnCheck('111222334')).toBe(false);
+    expect(peselCheck('44051401359')).toBe(true);
+    expect(peselCheck('44051401358')).toBe(false);
+    expect(nirCheck('1 85 05 78 006 084 91')).toBe(true);
+    expect(nirCheck('1 85 05 78 006 084 36')).toBe(false);
+  });
+});
@@ -0,0 +1,394 @@
+// src/shared/validators.ts
+// Checksum and range validators for structured identifiers.
+// Each validator receives the full regex match (which may include a keyword
+// prefix such as "NINO" or "Routing #") and returns true if the identifier
+// inside it is plausible.
+
+// IBAN lengths per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NL: 18,
+  NO: 15,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  SA: 24,
+  SC: 31,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+};
+
+// Luhn algorithm for credit card validation
+export function luhnCheck(cardNumber: string): boolean {
+  const digits = cardNumber.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  return luhnChecksum(digits);
+}
+
+// Luhn checksum without a length restriction (used by SIN and similar IDs)
+export function luhnChecksum(digits: string): boolean {
+  let sum = 0;
+  let isEven = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i]);
+
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+
+    sum += digit;
+    isEven = !isEven;
+  }
+
+  return sum % 10 === 0;
+}
+
+// IBAN: known country, exact country length and ISO 7064 mod-97 check
+export function ibanCheck(value: string): boolean {
+  const iban = value.replace(/[\s-]/g, '').toUpperCase();
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (!expectedLength || iban.length !== expectedLength) return false;
+
+  // Move country code and check digits to the end, then convert letters
+  // to numbers (A=10 ... Z=35) and compute the remainder piecewise
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char)
+      ? (char.charCodeAt(0) - 55).toString()
+      : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + parseInt(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+// US SSN: reject area 000/666/900-999, group 00, serial 0000 and
+// well-known advertising numbers
+export function ssnCheck(value: string): boolean {
+  const match = value.match(/(\d{3})-?(\d{2})-?(\d{4})/);
+  if (!match) return false;
+
+  const [, area, group, serial] = match;
+  const areaNumber = parseInt(area);
+  if (areaNumber === 0 || areaNumber === 666 || areaNumber >= 900) {
+    return false;
+  }
+  if (group === '00' || serial === '0000') return false;
+
+  const knownInvalid = ['078-05-1120', '219-09-9999', '123-45-6789'];
+  return !knownInvalid.includes(`${area}-${group}-${serial}`);
+}
+
+// UK National Insurance number prefix and suffix rules
+export function ninoCheck(value: string): boolean {
+  const match = value.match(
+    /([A-Z])([A-Z])\s?\d{2}\s?\d{2}\s?\d{2}\s?([A-Z])$/i
+  );
+  if (!match) return false;
+
+  const first = match[1].toUpperCase();
+  const second = match[2].toUpperCase();
+  const suffix = match[3].toUpperCase();
+
+  if ('DFIQUV'.includes(first)) return false;
+  if ('DFIOQUV'.includes(second)) return false;
+
+  const invalidPrefixes = ['BG', 'GB', 'NK', 'KN', 'TN', 'NT', 'ZZ'];
+  if (invalidPrefixes.includes(first + second)) return false;
+
+  return 'ABCD'.includes(suffix);
+}
+
+// ABA routing number: Federal Reserve prefix and 3-7-1 weighted checksum
+export function abaRoutingCheck(value: string): boolean {
+  const routingNumber = value.replace(/\D/g, '');
+  if (routingNumber.length !== 9) return false;
+
+  const digits = routingNumber.split('').map(d => parseInt(d));
+  const prefix = digits[0] * 10 + digits[1];
+  const validPrefix =
+    prefix <= 12 ||
+    (prefix >= 21 && prefix <= 32) ||
+    (prefix >= 61 && prefix <= 72) ||
+    prefix === 80;
+  if (!validPrefix) return false;
+
+  const sum =
+    3 * (digits[0] + digits[3] + digits[6]) +
+    7 * (digits[1] + digits[4] + digits[7]) +
+    (digits[2] + digits[5] + digits[8]);
+
+  return sum % 10 === 0;
+}
+
+// IPv4: every octet 0-255, no leading zeros
+export function ipv4Check(value: string): boolean {
+  const octets = value.split('.');
+  return (
+    octets.length === 4 &&
+    octets.every(
+      octet =>
+        /^\d{1,3}$/.test(octet) &&
+        parseInt(octet) <= 255 &&
+        (octet === '0' || !octet.startsWith('0'))
+    )
+  );
+}
+
+// Card expiry: month 01-12
+export function expiryCheck(value: string): boolean {
+  const match = value.match(/(\d{1,2})[/-](\d{2,4})$/);
+  if (!match) return false;
+
+  const month = parseInt(match[1]);
+  return month >= 1 && month <= 12;
+}
+
+// Date of birth: a real calendar date that is not in the future.
+// Accepts both month-first and day-first orderings.
+export function dateOfBirthCheck(value: string): boolean {
+  const match = value.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/);
+  if (!match) return false;
+
+  const first = parseInt(match[1]);
+  const second = parseInt(match[2]);
+  let year = parseInt(match[3]);
+  if (match[3].length === 2) {
+    // Two-digit years: assume the most recent century that is not in the future
+    const currentYear = new Date().getFullYear();
+    year += 2000;
+    if (year > currentYear) year -= 100;
+  } else if (match[3].length !== 4) {
+    return false;
+  }
+
+  const isValidDate = (month: number, day: number) => {
+    if (month < 1 || month > 12 || day < 1) return false;
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getTime() <= Date.now();
+  };
+
+  return isValidDate(first, second) || isValidDate(second, first);
+}
+
+// Track data: the embedded PAN must pass Luhn
+export function trackDataCheck(value: string): boolean {
+  const match = value.match(/(\d{13,19})=/);
+  return !!match && luhnCheck(match[1]);
+}
+
+// International phone number: E.164 allows 8 to 15 digits including the
+// country code
+export function e164Check(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 8 && digits.length <= 15;
+}
+
+// Canadian SIN: Luhn over nine digits; 0 and 8 are never issued as the
+// first digit
+export function sinCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9 || '08'.includes(digits[0])) return false;
+  return luhnChecksum(digits);
+}
+
+// Australian TFN: weighted sum of nine digits divisible by 11
+export function tfnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+
+  const weights = [1, 4, 3, 7, 5, 8, 6, 9, 10];
+  const sum = weights.reduce(
+    (total, weight, i) => total + weight * parseInt(digits[i]),
+    0
+  );
+  return sum % 11 === 0;
+}
+
+// Verhoeff multiplication and permutation tables
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+// Indian Aadhaar: twelve digits, first digit 2-9, Verhoeff check digit
+export function aadhaarCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 12 || '01'.includes(digits[0])) return false;
+
+  let check = 0;
+  digits
+    .split('')
+    .reverse()
+    .forEach((digit, i) => {
+      check = VERHOEFF_D[check][VERHOEFF_P[i % 8][parseInt(digit)]];
+    });
+  return check === 0;
+}
+
+// Indian PAN: the fourth character is the holder category
+export function panCheck(value: string): boolean {
+  const match = value.match(/[A-Z]{5}\d{4}[A-Z]$/i);
+  return !!match && 'ABCFGHJLPT'.includes(match[0][3].toUpperCase());
+}
+
+// Brazilian CPF: two mod-11 check digits; repeated digits are invalid
+export function cpfCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += parseInt(digits[i]) * (length + 1 - i);
+    }
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+
+  return (
+    checkDigit(9) === parseInt(digits[9]) &&
+    checkDigit(10) === parseInt(digits[10])
+  );
+}
+
+// Spanish DNI and NIE: the control letter is the number mod 23
+export function dniCheck(value: string): boolean {
+  const match = value.match(/([XYZ]?)(\d{7,8})-?([A-Z])$/i);
+  if (!match) return false;
+
+  const [, niePrefix, number, letter] = match;
+  if (!niePrefix && number.length !== 8) return false;
+  const prefixDigit = niePrefix ? 'XYZ'.indexOf(niePrefix.toUpperCase()) : '';
+  const numeric = parseInt(`${prefixDigit}${number}`);
+  return 'TRWAGMYFPDXBNJZSQVHLCKE'[numeric % 23] === letter.toUpperCase();
+}
+
+// Dutch BSN: the "11-proof" with the last digit weighted -1
+export function bsnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    sum += parseInt(digits[i]) * (9 - i);
+  }
+  sum -= parseInt(digits[8]);
+  return sum !== 0 && sum % 11 === 0;
+}
+
+// Polish PESEL: weighted check digit
+export function peselCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 11) return false;
+
+  const weights = [1, 3, 7, 9, 1, 3, 7, 9, 1, 3];
+  const sum = weights.reduce(
+    (total, weight, i) => total + weight * parseInt(digits[i]),
+    0
+  );
+  return (10 - (sum % 10)) % 10 === parseInt(digits[10]);
+}
+
+// French NIR (social security number): 13 digits plus a two-digit key
+// equal to 97 minus the number mod 97. Corsican departments use 2A/2B.
+export function nirCheck(value: string): boolean {
+  const compact = value.replace(/\s/g, '').toUpperCase();
+  const match = compact.match(/^([12]\d{4}(?:\d{2}|2A|2B)\d{6})(\d{2})$/);
+  if (!match) return false;
+
+  const number = match[1].replace('2A', '19').replace('2B', '18');
+  const remainder = Number(BigInt(number) % 97n);
+  return 97 - remainder === parseInt(match[2]);
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWhitelistExemption,
+  matchesWhitelistPattern,
+  normalizeWhitelistPattern,
+} from './whitelist';
+
+describe('Whitelist', () => {
+  it('should normalize patterns and reject invalid ones', () => {
+    expect(normalizeWhitelistPattern('https://www.Example.com/')).toBe(
+      'example.com'
+    );
+    expect(normalizeWhitelistPattern('*.Example.com')).toBe('*.example.com');
+    expect(normalizeWhitelistPattern('github.com/our-org')).toBe(
+      'github.com/our-org/*'
+    );
+    expect(normalizeWhitelistPattern('github.com/our-org/*')).toBe(
+      'github.com/our-org/*'
+    );
+    expect(normalizeWhitelistPattern('exa mple.com')).toBeNull();
+    expect(normalizeWhitelistPattern('*.*.example.com')).toBeNull();
+    expect(normalizeWhitelistPattern('github.com/*/repo')).toBeNull();
+    expect(normalizeWhitelistPattern('example.com/path?q=1')).toBeNull();
+  });
+
+  it('should match hosts, subdomains and path prefixes', () => {
+    expect(matchesWhitelistPattern('example.com', 'www.example.com')).toBe(
+      true
+    );
+    expect(matchesWhitelistPattern('example.com', 'app.example.com')).toBe(
+      false
+    );
+    expect(matchesWhitelistPattern('*.example.com', 'app.example.com')).toBe(
+      true
+    );
+    expect(matchesWhitelistPattern('*.example.com', 'example.com')).toBe(false);
+
+    const org = 'github.com/our-org/*';
+    expect(matchesWhitelistPattern(org, 'github.com', '/our-org')).toBe(true);
+    expect(matchesWhitelistPattern(org, 'github.com', '/our-org/repo')).toBe(
+      true
+    );
+    expect(matchesWhitelistPattern(org, 'github.com', '/our-org-fork')).toBe(
+      false
+    );
+    expect(matchesWhitelistPattern(org, 'github.com', '/')).toBe(false);
+  });
+
+  it('should combine the scopes of every matching entry', () => {
+    const rules = [
+      { domain: '*.example.com', scope: 'ai' as const },
+      {
+        domain: 'app.example.com',
+        scope: 'pii_types' as const,
+        pii_types: ['EMAIL', 'PHONE'],
+      },
+      {
+        domain: 'app.example.com',
+        scope: 'pii_types' as const,
+        pii_types: ['EMAIL'],
+      },
+      { domain: 'app.example.com', is_active: 0 },
+      { domain: 'other.com' },
+    ];
+
+    expect(getWhitelistExemption(rules, 'app.example.com')).toEqual({
+      all: false,
+      ai: true,
+      piiTypes: ['EMAIL', 'PHONE'],
+    });
+    expect(getWhitelistExemption(rules, 'other.com').all).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+// src/shared/whitelist.ts
+// Whitelist entries are matched locally against the synced copy. An entry is
+// a site pattern plus a scope:
+//   example.com           the site itself (and www.example.com)
+//   *.example.com         any subdomain
+//   github.com/our-org/*  pages under a path; github.com/our-org is the same
+// and turns off everything, AI scans only, or particular PII types there.
+// The self-hosted backend validates and checks entries with these same
+// functions.
+
+export type WhitelistScope = 'all' | 'ai' | 'pii_types';
+
+export const WHITELIST_SCOPES: WhitelistScope[] = ['all', 'ai', 'pii_types'];
+
+export type WhitelistRule = {
+  domain: string;
+  // Entries saved before scopes existed turn off everything
+  scope?: WhitelistScope;
+  pii_types?: string[];
+  is_active?: number;
+};
+
+export type WhitelistPattern = {
+  host: string;
+  subdomains: boolean;
+  // Path prefix without a trailing slash, e.g. "/our-org"
+  path: string | null;
+};
+
+// What the entries matching a page turn off
+export type WhitelistExemption = {
+  all: boolean;
+  ai: boolean;
+  piiTypes: string[];
+};
+
+const DOMAIN_REGEX =
+  /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+const PATH_REGEX = /^(\/[A-Za-z0-9._~!$&'()+,;=:@%-]+)+$/;
+
+export function parseWhitelistPattern(input: string): WhitelistPattern | null {
+  const value = input.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+  const slash = value.indexOf('/');
+  const hostPart = (slash === -1 ? value : value.slice(0, slash)).toLowerCase();
+  const pathPart = slash === -1 ? '' : value.slice(slash);
+
+  const subdomains = hostPart.startsWith('*.');
+  const host = subdomains ? hostPart.slice(2) : hostPart.replace(/^www\./, '');
+  if (host.length > 253 || !DOMAIN_REGEX.test(host)) return null;
+
+  // "/our-org/*", "/our-org/" and "/our-org" are the same prefix
+  const path = pathPart.replace(/\/\*$|\/+$/, '');
+  if (path && !PATH_REGEX.test(path)) return null;
+
+  return { host, subdomains, path: path || null };
+}
+
+// Canonical form, as stored by the server
+export function formatWhitelistPattern(pattern: WhitelistPattern): string {
+  return `${pattern.subdomains ? '*.' : ''}${pattern.host}${
+    pattern.path ? `${pattern.path}/*` : ''
+  }`;
+}
+
+export function normalizeWhitelistPattern(input: string): string | null {
+  const pattern = parseWhitelistPattern(input);
+  return pattern && formatWhitelistPattern(pattern);
+}
+
+export function matchesWhitelistPattern(
+  input: string,
+  hostname: string,
+  pathname = '/'
+): boolean {
+  const pattern = parseWhitelistPattern(input);
+  if (!pattern) return false;
+
+  const host = hostname.toLowerCase();
+  const hostMatches = pattern.subdomains
+    ? host.endsWith(`.${pattern.host}`)
+    : host.replace(/^www\./, '') === pattern.host;
+  if (!hostMatches) return false;
+
+  return (
+    !pattern.path ||
+    pathname === pattern.path ||
+    pathname.startsWith(`${pattern.path}/`)
+  );
+}
+
+export function getWhitelistExemption(
+  rules: WhitelistRule[],
+  hostname: string,
+  pathname = '/'
+): WhitelistExemption {
+  const exemption: WhitelistExemption = { all: false, ai: false, piiTypes: [] };
+  for (const rule of rules) {
+    if (rule.is_active === 0) continue;
+    if (!matchesWhitelistPattern(rule.domain, hostname, pathname)) continue;
+
+    if (rule.scope === 'ai') {
+      exemption.ai = true;
+    } else if (rule.scope === 'pii_types') {
+      exemption.piiTypes.push(...(rule.pii_types ?? []));
+    } else {
+      exemption.all = true;
+    }
+  }
+  exemption.piiTypes = [...new Set(exemption.piiTypes)];
+  return exemption;
+}
@@ -17,6 +17,8 @@ export default defineConfig({
       'storage', // For storing user settings
       'activeTab', // Required for some interactions
       'contextMenus',
+      'clipboardWrite', // For copying restored pseudonymized text
+      'alarms', // Retries queued detection logs after the worker sleeps
       ...(browser === 'firefox' ? ['scripting'] : []), // Firefox needs explicit scripting permission
     ],
     // externally_connectable is Chrome-only, so we conditionally add it
@@ -36,6 +38,17 @@ export default defineConfig({
     host_permissions: [
       '<all_urls>', // Allows content scripts to run on all websites
     ],
+    // Page-world script that reads Monaco/CodeMirror models for the content script.
+    // Editors can be on any site, so every page may load it; the dynamic URL
+    // changes each session so pages can't probe for it to detect the extension
+    // (Firefox already uses a per-install extension id).
+    web_accessible_resources: [
+      {
+        resources: ['editor-bridge.js'],
+        matches: ['<all_urls>'],
+        use_dynamic_url: true,
+      },
+    ],
     // Firefox-specific: Declare data collection practices
     // Required by Firefox Add-on Store - must be under browser_specific_settings.gecko
     // See: https://blog.mozilla.org/addons/2025/05/09/new-extension-data-consent-experience-now-available-in-firefox-nightly/